@@ -50,11 +50,10 @@ export class PluginOutletComponent implements OnInit, OnDestroy {
 
   ngOnDestroy(): void {
     if (this.componentRef) {
-      try {
-        this.componentRef.destroy();
-      } catch {
+      // v1.5.0: Destroy only this outlet's instance so other outlets of the same plugin stay alive
+      this.pluginManager.destroyPluginComponent(this.plugin, this.componentRef).catch(() => {
         // Defensive: ignore component destruction errors
-      }
+      });
     }
   }
 }
@@ -0,0 +1,98 @@
+import {
+  Component,
+  ElementRef,
+  Inject,
+  Optional,
+  ChangeDetectionStrategy
+} from '@angular/core';
+import { PluginLifecycle } from '../types/lifecycle.types';
+import { PluginContext } from '../types/context.types';
+import { LoadedPluginModule } from '../types/plugin.types';
+import { RemotePluginConfig } from '../types/remote-plugin.types';
+import { PLUGIN_SANDBOX_CONFIG, PLUGIN_SANDBOX_NONCE, PluginSandboxOptions } from '../types/sandbox.types';
+import {
+  PLUGIN_SANDBOX_CHANNEL,
+  PluginSandboxBridge,
+  createSandboxDocument,
+  getSandboxAttribute
+} from '../utils/plugin-sandbox.util';
+
+/**
+ * Host-side component of a sandboxed plugin
+ * v1.5.0: Renders the plugin's iframe and connects it to the plugin context through PluginSandboxBridge
+ */
+@Component({
+  selector: 'plugin-sandbox',
+  standalone: true,
+  template: '',
+  styles: [':host { display: block; }'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PluginSandboxComponent implements PluginLifecycle {
+  private iframe?: HTMLIFrameElement;
+  private bridge?: PluginSandboxBridge;
+
+  constructor(
+    @Inject(PLUGIN_SANDBOX_CONFIG) private readonly config: RemotePluginConfig,
+    private readonly elementRef: ElementRef<HTMLElement>,
+    @Optional() @Inject(PLUGIN_SANDBOX_NONCE) private readonly getNonce?: () => string | null | undefined
+  ) {}
+
+  async onActivate(context: PluginContext): Promise<void> {
+    const options: PluginSandboxOptions = typeof this.config.sandbox === 'object' ? this.config.sandbox : {};
+    const services = options.services || {};
+
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', getSandboxAttribute(options.permissions));
+    iframe.title = context.pluginName;
+    iframe.style.border = '0';
+    iframe.style.width = '100%';
+    iframe.style.height = options.height || '100%';
+    iframe.srcdoc = createSandboxDocument(this.config, Object.keys(services), this.getNonce?.());
+
+    const loaded = new Promise<void>(resolve => iframe.addEventListener('load', () => resolve(), { once: true }));
+    this.elementRef.nativeElement.appendChild(iframe);
+    this.iframe = iframe;
+    await loaded;
+
+    // The port is the only channel into the host; the sandboxed document has an opaque origin
+    const channel = new MessageChannel();
+    this.bridge = new PluginSandboxBridge(channel.port1, context, services);
+    iframe.contentWindow!.postMessage({ channel: PLUGIN_SANDBOX_CHANNEL, type: 'init' }, '*', [channel.port2]);
+
+    await this.bridge.ready;
+  }
+
+  onDestroy(): void {
+    this.bridge?.destroy();
+    this.bridge = undefined;
+    this.iframe?.remove();
+    this.iframe = undefined;
+  }
+}
+
+/**
+ * v1.5.0: Module that PluginManager loads for a sandboxed remote plugin
+ * The bundle itself is only ever evaluated inside the iframe.
+ */
+export function createSandboxedPluginModule(
+  config: RemotePluginConfig,
+  getNonce?: () => string | null | undefined // v1.5.0: See PLUGIN_SANDBOX_NONCE
+): LoadedPluginModule {
+  if (config.format === 'federation') {
+    throw new Error(`Sandboxed plugin ${config.name} must use format 'global' or 'esm'`);
+  }
+
+  return {
+    PluginManifest: {
+      name: config.name,
+      version: config.version || '0.0.0',
+      entryComponent: PluginSandboxComponent,
+      permissions: typeof config.sandbox === 'object' ? config.sandbox.capabilities : undefined,
+      providers: [
+        { provide: PLUGIN_SANDBOX_CONFIG, useValue: config },
+        ...(getNonce ? [{ provide: PLUGIN_SANDBOX_NONCE, useValue: getNonce }] : [])
+      ]
+    }
+  };
+}
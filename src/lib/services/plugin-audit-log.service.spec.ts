@@ -0,0 +1,160 @@
+import { TestBed } from '@angular/core/testing';
+import { Injector, InjectionToken } from '@angular/core';
+import { PluginAuditLog } from './plugin-audit-log.service';
+import { PluginRegistry } from './plugin-registry.service';
+import { RemotePluginLoader } from './remote-plugin-loader.service';
+import { PluginEventBus } from './plugin-event-bus.service';
+import { PluginContextImpl } from '../utils/plugin-context.impl';
+import { PluginAuditConfig, PluginAuditRecord } from '../types/audit.types';
+import { PluginState } from '../types/plugin.types';
+import { PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import { RemotePluginConfig } from '../types/remote-plugin.types';
+
+describe('PluginAuditLog', () => {
+  const BILLING_SERVICE = new InjectionToken<{ charge: () => void }>('BILLING_SERVICE');
+  const AUTH_SERVICE = new InjectionToken<{ token: string }>('AUTH_SERVICE');
+
+  let auditLog: PluginAuditLog;
+
+  const setup = (audit?: PluginAuditConfig) => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: BILLING_SERVICE, useValue: { charge: () => undefined } },
+        { provide: AUTH_SERVICE, useValue: { token: 'secret' } },
+        { provide: PLUGIN_SYSTEM_CONFIG, useValue: { audit } }
+      ]
+    });
+    auditLog = TestBed.inject(PluginAuditLog);
+  };
+
+  const createContext = (pluginName: string) =>
+    new PluginContextImpl({
+      pluginName,
+      hostInjector: TestBed.inject(Injector),
+      eventBus: TestBed.inject(PluginEventBus),
+      allowedServices: [BILLING_SERVICE],
+      auditLog
+    });
+
+  it('should record nothing unless audit is configured', () => {
+    setup();
+
+    createContext('invoice').getService(BILLING_SERVICE);
+
+    expect(auditLog.enabled).toBeFalse();
+    expect(auditLog.query()).toEqual([]);
+  });
+
+  it('should record service access and emitted events from plugin contexts', () => {
+    setup({});
+    const context = createContext('invoice');
+
+    context.getService(BILLING_SERVICE);
+    context.getService(AUTH_SERVICE);
+    context.emit('saved', { id: 1 });
+
+    expect(auditLog.query({ pluginName: 'invoice' })).toEqual([
+      jasmine.objectContaining({ type: 'service', service: 'InjectionToken BILLING_SERVICE', granted: true, found: true }),
+      jasmine.objectContaining({ type: 'service', service: 'InjectionToken AUTH_SERVICE', granted: false, found: false }),
+      jasmine.objectContaining({ type: 'event', topic: 'invoice:saved' })
+    ]);
+  });
+
+  it('should record lookups through context.hostInjector', () => {
+    setup({});
+    const context = createContext('invoice');
+
+    context.hostInjector.get(BILLING_SERVICE);
+    context.hostInjector.get(AUTH_SERVICE, null);
+    context.hostInjector.get(Injector);
+
+    expect(auditLog.query({ pluginName: 'invoice', type: 'service' })).toEqual([
+      jasmine.objectContaining({ service: 'InjectionToken BILLING_SERVICE', granted: true, found: true }),
+      jasmine.objectContaining({ service: 'InjectionToken AUTH_SERVICE', granted: false, found: false })
+    ]);
+  });
+
+  it('should record state transitions from the registry', () => {
+    setup({});
+    const registry = TestBed.inject(PluginRegistry);
+
+    registry.register({ name: 'invoice', loadFn: async () => ({} as any) });
+    registry.updateMetadata('invoice', { state: PluginState.LOADING });
+    registry.updateMetadata('invoice', { state: PluginState.ERROR, error: new Error('boom') });
+
+    expect(auditLog.query({ type: 'state' }).map(record => [record.pluginName, (record as any).from, (record as any).to])).toEqual([
+      ['invoice', undefined, PluginState.REGISTERED],
+      ['invoice', PluginState.REGISTERED, PluginState.LOADING],
+      ['invoice', PluginState.LOADING, PluginState.ERROR]
+    ]);
+    expect(auditLog.query({ type: 'state' })[2]).toEqual(jasmine.objectContaining({ error: 'boom' }));
+  });
+
+  it('should record successful and failed remote loads', async () => {
+    setup({});
+    const loader = TestBed.inject(RemotePluginLoader);
+    const config: RemotePluginConfig = {
+      name: 'esm-plugin',
+      remoteUrl: 'https://cdn.example.com/plugins/esm-plugin.mjs',
+      exposedModule: 'EsmPlugin',
+      format: 'esm',
+      version: '1.0.0',
+      retry: false
+    };
+    spyOn(loader as any, 'importModule').and.resolveTo({ EsmPlugin: { PluginManifest: { name: 'esm-plugin' } } });
+
+    await loader.loadRemotePlugin(config);
+    await loader.loadRemotePlugin(config);
+    await expectAsync(loader.loadRemotePlugin({ ...config, name: 'missing', exposedModule: 'Missing' })).toBeRejected();
+    loader.clearCache();
+
+    expect(auditLog.query({ type: 'remote-load' })).toEqual([
+      jasmine.objectContaining({ pluginName: 'esm-plugin', url: config.remoteUrl, version: '1.0.0', success: true, fromCache: false }),
+      jasmine.objectContaining({ pluginName: 'esm-plugin', success: true, fromCache: true }),
+      jasmine.objectContaining({ pluginName: 'missing', success: false, error: jasmine.any(String) })
+    ]);
+  });
+
+  it('should query by plugin and time range', async () => {
+    setup({});
+    const context = createContext('invoice');
+
+    context.emit('early');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const start = new Date();
+    context.emit('late');
+    createContext('reports').emit('late');
+
+    const records = auditLog.query({ pluginName: 'invoice', from: start, to: Date.now() });
+
+    expect(records.map(record => (record as any).topic)).toEqual(['invoice:late']);
+    expect(auditLog.query({ to: start.getTime() - 1 }).length).toBe(1);
+  });
+
+  it('should keep only the most recent records in memory', () => {
+    setup({ bufferSize: 2 });
+    const context = createContext('invoice');
+
+    context.emit('one');
+    context.emit('two');
+    context.emit('three');
+
+    expect(auditLog.query().map(record => record.id)).toEqual([2, 3]);
+  });
+
+  it('should forward records to sinks and survive failing sinks', () => {
+    const written: PluginAuditRecord[] = [];
+    const consoleError = spyOn(console, 'error');
+    setup({
+      sinks: [
+        { write: () => { throw new Error('exporter down'); } },
+        { write: record => written.push(record) }
+      ]
+    });
+
+    createContext('invoice').emit('saved');
+
+    expect(written).toEqual([jasmine.objectContaining({ type: 'event', topic: 'invoice:saved', timestamp: jasmine.any(Date) })]);
+    expect(consoleError).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { Injectable, Inject, Optional } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import {
+  PluginAuditEntry,
+  PluginAuditQuery,
+  PluginAuditRecord,
+  PluginAuditSink
+} from '../types/audit.types';
+import { PluginSystemConfig, PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import { RingBufferAuditSink } from '../utils/plugin-audit-sinks';
+
+/**
+ * Audit trail of plugin activity
+ * v1.5.0: Fed by plugin contexts (getService, hostInjector, emit), PluginRegistry state transitions
+ * and RemotePluginLoader. Records nothing unless PluginSystemConfig.audit is set.
+ */
+@Injectable({ providedIn: 'root' })
+export class PluginAuditLog {
+  private readonly recordsSubject = new Subject<PluginAuditRecord>();
+  private readonly buffer?: RingBufferAuditSink;
+  private readonly sinks: PluginAuditSink[] = [];
+  private sequence = 0;
+
+  /**
+   * Stream of records as they are written
+   */
+  readonly records$: Observable<PluginAuditRecord> = this.recordsSubject.asObservable();
+
+  constructor(
+    @Optional() @Inject(PLUGIN_SYSTEM_CONFIG) private readonly config?: PluginSystemConfig
+  ) {
+    const audit = this.config?.audit;
+    if (audit) {
+      this.buffer = new RingBufferAuditSink(audit.bufferSize);
+      this.sinks = [this.buffer, ...(audit.sinks || [])];
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.buffer;
+  }
+
+  record(entry: PluginAuditEntry): void {
+    if (!this.buffer) {
+      return;
+    }
+
+    const record = { ...entry, id: ++this.sequence, timestamp: new Date() } as PluginAuditRecord;
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch (error) {
+        // Defensive: a failing exporter must not break the plugin that triggered the record
+        console.error('[PluginSystem] Audit sink failed', error);
+      }
+    }
+
+    this.recordsSubject.next(record);
+  }
+
+  /**
+   * Buffered records matching the query, oldest first
+   * Only the last `audit.bufferSize` records are kept; use a sink for a complete trail.
+   */
+  query(query: PluginAuditQuery = {}): PluginAuditRecord[] {
+    return this.buffer?.query(query) || [];
+  }
+
+  clear(): void {
+    this.buffer?.clear();
+  }
+}
@@ -0,0 +1,295 @@
+import { TestBed } from '@angular/core/testing';
+import { Injector } from '@angular/core';
+import { PluginEventBus, matchesTopic } from './plugin-event-bus.service';
+import { PluginContextImpl } from '../utils/plugin-context.impl';
+import { PluginBusEvent, PluginEvents } from '../types/event-bus.types';
+import { PluginContext } from '../types/context.types';
+import { PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import {
+  PluginError,
+  PluginEventValidationError,
+  PluginRequestTimeoutError
+} from '../types/errors.types';
+
+type InvoiceEvents = PluginEvents<{
+  'invoice:paid': { id: string };
+  'invoice:refreshed': void;
+}>;
+
+describe('PluginEventBus', () => {
+  let bus: PluginEventBus;
+  let injector: Injector;
+
+  const createContext = (pluginName: string, allowedEvents?: string[]) =>
+    new PluginContextImpl({
+      pluginName,
+      hostInjector: injector,
+      eventBus: bus,
+      allowedEvents
+    });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [PluginEventBus]
+    });
+    bus = TestBed.inject(PluginEventBus);
+    injector = TestBed.inject(Injector);
+  });
+
+  describe('matchesTopic', () => {
+    it('should match exact topics and wildcards', () => {
+      expect(matchesTopic('invoice:paid', 'invoice:paid')).toBe(true);
+      expect(matchesTopic('invoice:paid', 'invoice:*')).toBe(true);
+      expect(matchesTopic('invoice:paid', '*:paid')).toBe(true);
+      expect(matchesTopic('invoice:paid', '*')).toBe(true);
+      expect(matchesTopic('invoice:paid', 'reports:*')).toBe(false);
+      expect(matchesTopic('invoice:paid', 'invoice:paid.v2')).toBe(false);
+    });
+  });
+
+  describe('host API', () => {
+    it('should deliver published events to observers', () => {
+      const received: PluginBusEvent[] = [];
+      const subscription = bus.observe('host:*').subscribe(event => received.push(event));
+
+      bus.publish('host:theme-changed', { theme: 'dark' });
+      bus.publish('other:ignored');
+      subscription.unsubscribe();
+
+      expect(received.length).toBe(1);
+      expect(received[0].topic).toBe('host:theme-changed');
+      expect(received[0].source).toBeNull();
+      expect(received[0].data).toEqual({ theme: 'dark' });
+    });
+
+    it('should not propagate handler errors', () => {
+      const handler = jasmine.createSpy('handler');
+      bus.subscribe('a:*', () => {
+        throw new Error('handler failed');
+      });
+      bus.subscribe('a:*', handler);
+
+      expect(() => bus.publish('a:event')).not.toThrow();
+      expect(handler).toHaveBeenCalled();
+    });
+  });
+
+  describe('PluginContext routing', () => {
+    it('should namespace emitted events with the plugin name', () => {
+      const observed: string[] = [];
+      bus.observe('*').subscribe(event => observed.push(`${event.source}/${event.topic}`));
+
+      createContext('invoice').emit('paid', { id: '42' });
+
+      expect(observed).toEqual(['invoice/invoice:paid']);
+    });
+
+    it('should let one plugin hear another', () => {
+      const invoice = createContext('invoice');
+      const reports = createContext('reports');
+      const handler = jasmine.createSpy('handler');
+
+      reports.subscribe('invoice:paid', handler);
+      invoice.emit('paid', { id: '42' });
+
+      expect(handler).toHaveBeenCalledWith({ id: '42' });
+    });
+
+    it('should keep unqualified subscriptions in the plugin namespace', () => {
+      const invoice = createContext('invoice');
+      const reports = createContext('reports');
+      const handler = jasmine.createSpy('handler');
+
+      reports.subscribe('saved', handler);
+      invoice.emit('saved');
+      expect(handler).not.toHaveBeenCalled();
+
+      reports.emit('saved');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should support wildcard subscriptions', () => {
+      const invoice = createContext('invoice');
+      const reports = createContext('reports');
+      const handler = jasmine.createSpy('handler');
+
+      reports.subscribe('invoice:*', handler);
+      invoice.emit('paid');
+      invoice.emit('voided');
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should enforce the allowed events list', () => {
+      const invoice = createContext('invoice');
+      const restricted = createContext('restricted', ['billing:*']);
+      const handler = jasmine.createSpy('handler');
+      const hostHandler = jasmine.createSpy('hostHandler');
+
+      restricted.subscribe('*:*', handler);
+      bus.observe('*').subscribe(hostHandler);
+
+      invoice.emit('paid');
+      bus.publish('billing:updated', 1);
+      restricted.emit('ready');
+
+      expect(handler.calls.allArgs()).toEqual([[1], [undefined]]);
+      expect(hostHandler).toHaveBeenCalledTimes(3);
+    });
+
+    it('should remove all subscriptions when the context is destroyed', () => {
+      const invoice = createContext('invoice');
+      const reports = createContext('reports');
+      const handler = jasmine.createSpy('handler');
+
+      reports.subscribe('invoice:paid', handler);
+      reports.subscribe('invoice:*', handler);
+      reports.destroy();
+      invoice.emit('paid');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('typed event contracts', () => {
+    it('should type-check payloads for producers and consumers', () => {
+      const invoice: PluginContext<InvoiceEvents> = new PluginContextImpl<InvoiceEvents>({
+        pluginName: 'invoice',
+        hostInjector: injector,
+        eventBus: bus
+      });
+      const reports = new PluginContextImpl<InvoiceEvents>({
+        pluginName: 'reports',
+        hostInjector: injector,
+        eventBus: bus
+      });
+      const ids: string[] = [];
+
+      reports.subscribe('invoice:paid', payload => ids.push(payload.id));
+      invoice.emit('invoice:paid', { id: '42' });
+      invoice.emit('invoice:refreshed');
+
+      // Compile-time checks only, never invoked
+      const invalidUsages = () => {
+        // @ts-expect-error - payload does not match the contract
+        invoice.emit('invoice:paid', { invoiceId: '42' });
+        // @ts-expect-error - payload is required
+        invoice.emit('invoice:paid');
+        // @ts-expect-error - unknown event name
+        invoice.emit('invoice:unknown', {});
+        // @ts-expect-error - handler expects the wrong payload
+        reports.subscribe('invoice:paid', (payload: { total: number }) => payload.total);
+      };
+
+      expect(invalidUsages).toBeDefined();
+      expect(ids).toEqual(['42']);
+    });
+  });
+
+  describe('dev mode payload validation', () => {
+    beforeEach(() => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          PluginEventBus,
+          {
+            provide: PLUGIN_SYSTEM_CONFIG,
+            useValue: {
+              enableDevMode: true,
+              eventValidators: {
+                'invoice:paid': (data: any) => typeof data?.id === 'string' || 'id must be a string'
+              }
+            }
+          }
+        ]
+      });
+      bus = TestBed.inject(PluginEventBus);
+      injector = TestBed.inject(Injector);
+    });
+
+    it('should reject payloads that fail configured validators', () => {
+      const invoice = createContext('invoice');
+
+      expect(() => invoice.emit('paid', { id: '42' })).not.toThrow();
+      expect(() => invoice.emit('paid', { id: 42 })).toThrowMatching(
+        error => error instanceof PluginEventValidationError && error.message.includes('id must be a string')
+      );
+    });
+
+    it('should support validators registered at runtime', () => {
+      const handler = jasmine.createSpy('handler');
+      bus.observe('reports:*').subscribe(handler);
+      const remove = bus.registerValidator('reports:*', data => data !== null);
+
+      expect(() => bus.publish('reports:ready', null)).toThrowError(PluginEventValidationError);
+      remove();
+      bus.publish('reports:ready', null);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('request/response', () => {
+    it('should resolve with the handler response', async () => {
+      const crm = createContext('crm');
+      const invoice = createContext('invoice');
+
+      crm.handle('customer-id', (payload, request) => `${request.source}:${payload.account}`);
+
+      const response = await invoice.request('crm:customer-id', { account: 'acme' });
+      expect(response).toBe('invoice:acme');
+    });
+
+    it('should support async handlers and propagate their errors', async () => {
+      const crm = createContext('crm');
+      crm.handle('lookup', async (id: string) => {
+        if (!id) {
+          throw new Error('id required');
+        }
+        return { id };
+      });
+
+      await expectAsync(bus.request('crm:lookup', '7')).toBeResolvedTo({ id: '7' });
+      await expectAsync(bus.request('crm:lookup', '')).toBeRejectedWithError('id required');
+    });
+
+    it('should wait for a handler registered after the request', async () => {
+      const pending = createContext('invoice').request('crm:customer-id', undefined, { timeout: 200 });
+      createContext('crm').handle('customer-id', () => 'c-1');
+
+      await expectAsync(pending).toBeResolvedTo('c-1');
+    });
+
+    it('should reject with PluginRequestTimeoutError when nobody answers', async () => {
+      const invoice = createContext('invoice');
+
+      await expectAsync(
+        invoice.request('crm:customer-id', undefined, { timeout: 20 })
+      ).toBeRejectedWithError(PluginRequestTimeoutError);
+    });
+
+    it('should reject at once when there is no handler and no timeout', async () => {
+      await expectAsync(
+        bus.request('crm:customer-id', undefined, { timeout: 0 })
+      ).toBeRejectedWithError(PluginError, /No request handler is registered for 'crm:customer-id'/);
+      expect((bus as any).pendingRequests.size).toBe(0);
+    });
+
+    it('should allow only one handler per topic', () => {
+      bus.handle('crm:customer-id', () => 'first');
+
+      expect(() => bus.handle('crm:customer-id', () => 'second')).toThrowError(PluginError);
+    });
+
+    it('should remove handlers when the context is destroyed', async () => {
+      const crm = createContext('crm');
+      crm.handle('customer-id', () => 'c-1');
+      crm.destroy();
+
+      expect(bus.hasHandler('crm:customer-id')).toBe(false);
+      await expectAsync(
+        bus.request('crm:customer-id', undefined, { timeout: 20 })
+      ).toBeRejectedWithError(PluginRequestTimeoutError);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { Injectable, Inject, Optional } from '@angular/core';
+import { Observable, Subject, filter } from 'rxjs';
+import {
+  PluginBusEvent,
+  PluginEventValidator,
+  PluginRequestHandler,
+  PluginRequestOptions
+} from '../types/event-bus.types';
+import { PluginSystemConfig, PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import {
+  PluginError,
+  PluginEventValidationError,
+  PluginRequestTimeoutError
+} from '../types/errors.types';
+
+interface PendingRequest {
+  payload: unknown;
+  source: string | null;
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * Host-level event bus shared by all plugin contexts
+ * v1.5.0: Lets plugins talk to each other and to the host
+ *
+ * Topics are namespaced as `pluginName:event`. Patterns support `*` wildcards,
+ * e.g. `invoice:*` (every invoice event) or `*:saved` (any plugin's saved event).
+ */
+@Injectable({ providedIn: 'root' })
+export class PluginEventBus {
+  private readonly eventsSubject = new Subject<PluginBusEvent>();
+  private readonly validators = new Map<string, Set<PluginEventValidator<any>>>();
+  private readonly requestHandlers = new Map<string, PluginRequestHandler>();
+  private readonly pendingRequests = new Map<string, Set<PendingRequest>>();
+
+  /**
+   * Stream of every event published on the bus
+   */
+  readonly events$: Observable<PluginBusEvent> = this.eventsSubject.asObservable();
+
+  constructor(
+    @Optional() @Inject(PLUGIN_SYSTEM_CONFIG) private readonly config?: PluginSystemConfig
+  ) {
+    Object.entries(this.config?.eventValidators || {}).forEach(([pattern, validator]) =>
+      this.registerValidator(pattern, validator)
+    );
+  }
+
+  /**
+   * Publish an event. Host code leaves `source` empty.
+   * @throws PluginEventValidationError in dev mode when a validator rejects the payload
+   */
+  publish<T = any>(topic: string, data?: T, source: string | null = null): void {
+    if (this.config?.enableDevMode) {
+      this.validate(topic, data, source);
+    }
+
+    this.eventsSubject.next({
+      topic,
+      source,
+      data: data as T,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Observe events whose topic matches the pattern
+   */
+  observe<T = any>(pattern: string): Observable<PluginBusEvent<T>> {
+    return this.events$.pipe(
+      filter((event): event is PluginBusEvent<T> => matchesTopic(event.topic, pattern))
+    );
+  }
+
+  /**
+   * Callback-based subscription used by PluginContext
+   * @returns Function that removes the subscription
+   */
+  subscribe<T = any>(pattern: string, handler: (event: PluginBusEvent<T>) => void): () => void {
+    const subscription = this.observe<T>(pattern).subscribe(event => {
+      try {
+        handler(event);
+      } catch {
+        // Defensive: do not propagate plugin handler errors
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }
+
+  /**
+   * v1.5.0: Send a request and await the handler's response
+   * Requests wait for a handler to be registered until the timeout expires.
+   * Without a timeout (0 or Infinity) nothing would ever settle them, so they are rejected right away.
+   * @throws PluginRequestTimeoutError when no response arrives in time
+   */
+  request<TResponse = any>(
+    topic: string,
+    payload?: unknown,
+    options: PluginRequestOptions = {},
+    source: string | null = null
+  ): Promise<TResponse> {
+    const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+    const hasTimeout = timeout > 0 && timeout !== Infinity;
+
+    if (!hasTimeout && !this.requestHandlers.has(topic)) {
+      return Promise.reject(
+        new PluginError(`No request handler is registered for '${topic}'`, source ?? undefined, undefined, {
+          suggestion: 'Set a request timeout to wait for the handler, or send the request once the responding plugin is loaded.',
+          docs: 'https://github.com/angular-dynamic-plugin-system#plugin-requests'
+        })
+      );
+    }
+
+    return new Promise<TResponse>((resolve, reject) => {
+      let timeoutId: any;
+
+      const pending: PendingRequest = {
+        payload,
+        source,
+        resolve: response => {
+          clearTimeout(timeoutId);
+          resolve(response);
+        },
+        reject: error => {
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      };
+
+      if (hasTimeout) {
+        timeoutId = setTimeout(() => {
+          this.pendingRequests.get(topic)?.delete(pending);
+          reject(new PluginRequestTimeoutError(topic, timeout, source ?? undefined));
+        }, timeout);
+      }
+
+      if (this.requestHandlers.has(topic)) {
+        this.dispatchRequest(topic, pending);
+      } else {
+        if (!this.pendingRequests.has(topic)) {
+          this.pendingRequests.set(topic, new Set());
+        }
+        this.pendingRequests.get(topic)!.add(pending);
+      }
+    });
+  }
+
+  /**
+   * v1.5.0: Register the handler answering requests for a topic (one handler per topic)
+   * @returns Function that removes the handler
+   */
+  handle<TRequest = any, TResponse = any>(
+    topic: string,
+    handler: PluginRequestHandler<TRequest, TResponse>
+  ): () => void {
+    if (this.requestHandlers.has(topic)) {
+      throw new PluginError(`A request handler is already registered for '${topic}'`, undefined, undefined, {
+        suggestion: 'Remove the existing handler with the function returned by handle() before registering a new one.'
+      });
+    }
+
+    this.requestHandlers.set(topic, handler);
+
+    // Answer requests that were sent before the handler existed
+    const pending = this.pendingRequests.get(topic);
+    if (pending) {
+      this.pendingRequests.delete(topic);
+      pending.forEach(request => this.dispatchRequest(topic, request));
+    }
+
+    return () => {
+      if (this.requestHandlers.get(topic) === handler) {
+        this.requestHandlers.delete(topic);
+      }
+    };
+  }
+
+  hasHandler(topic: string): boolean {
+    return this.requestHandlers.has(topic);
+  }
+
+  private dispatchRequest(topic: string, request: PendingRequest): void {
+    const handler = this.requestHandlers.get(topic)!;
+
+    try {
+      Promise.resolve(handler(request.payload, { topic, source: request.source })).then(
+        request.resolve,
+        request.reject
+      );
+    } catch (error) {
+      request.reject(error as Error);
+    }
+  }
+
+  /**
+   * v1.5.0: Register a payload validator for topics matching the pattern (dev mode only)
+   * @returns Function that removes the validator
+   */
+  registerValidator<T = unknown>(pattern: string, validator: PluginEventValidator<T>): () => void {
+    if (!this.validators.has(pattern)) {
+      this.validators.set(pattern, new Set());
+    }
+
+    const validators = this.validators.get(pattern)!;
+    validators.add(validator);
+
+    return () => {
+      validators.delete(validator);
+      if (validators.size === 0) {
+        this.validators.delete(pattern);
+      }
+    };
+  }
+
+  private validate(topic: string, data: unknown, source: string | null): void {
+    for (const [pattern, validators] of this.validators) {
+      if (!matchesTopic(topic, pattern)) {
+        continue;
+      }
+
+      for (const validator of validators) {
+        const result = validator(data, topic);
+        if (result === false || typeof result === 'string') {
+          const reason = typeof result === 'string' ? result : `rejected by validator for '${pattern}'`;
+          throw new PluginEventValidationError(topic, reason, source ?? undefined);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a topic matches a pattern where `*` matches any sequence of characters
+ */
+export function matchesTopic(topic: string, pattern: string): boolean {
+  if (pattern === topic || pattern === '*') {
+    return true;
+  }
+
+  if (!pattern.includes('*')) {
+    return false;
+  }
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`).test(topic);
+}
@@ -1,17 +1,35 @@
 import { TestBed } from '@angular/core/testing';
-import { Injector } from '@angular/core';
+import { Component, Inject, Injectable, Injector, InjectionToken, Optional, Type, ViewContainerRef, inject } from '@angular/core';
 import { PluginManager } from './plugin-manager.service';
 import { PluginRegistry } from './plugin-registry.service';
+import { RemotePluginLoader } from './remote-plugin-loader.service';
+import { PluginEventBus } from './plugin-event-bus.service';
+import { PluginAuditLog } from './plugin-audit-log.service';
 import { PluginState, LoadedPluginModule } from '../types/plugin.types';
-import { PluginRegistration, PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import { PluginRegistration, PLUGIN_SYSTEM_CONFIG, PLUGIN_CONSENT_HANDLER } from '../types/registration.types';
 import {
+  PluginError,
   PluginNotFoundError,
   PluginLoadError,
   PluginStateError,
   PluginLifecycleTimeoutError,
-  PluginOperationInProgressError
+  PluginOperationInProgressError,
+  PluginDependencyError,
+  PluginRequestTimeoutError,
+  PluginCatalogError,
+  PluginUpgradeError,
+  PluginPermissionError,
+  PluginConsentError
 } from '../types/errors.types';
+import { PluginCatalog, RemotePluginConfig } from '../types/remote-plugin.types';
 import { PluginLifecycle } from '../types/lifecycle.types';
+import { PluginSandboxComponent } from '../components/plugin-sandbox.component';
+import { PLUGIN_SANDBOX_NONCE } from '../types/sandbox.types';
+import { PluginSandboxBridge, createSandboxDocument } from '../utils/plugin-sandbox.util';
+import { exposePluginWorker, PluginWorkerScope } from '../utils/plugin-worker.util';
+import { PluginWorkerDefinition } from '../types/worker.types';
+import { PluginPermissionPolicy, PluginConsentHandler } from '../types/permission.types';
+import { MemoryPluginConsentStorage } from '../utils/plugin-consent-storage';
 
 class MockPluginComponent implements PluginLifecycle {
   onLoadCalled = false;
@@ -1405,4 +1423,1638 @@ describe('PluginManager', () => {
       });
     });
   });
+
+  describe('v1.5.0 Plugin Dependencies', () => {
+    const registerPlugin = (
+      name: string,
+      version: string,
+      dependencies?: Record<string, string>,
+      onLoadOrder?: string[]
+    ) => {
+      class DependencyTestComponent implements PluginLifecycle {
+        onLoad() {
+          onLoadOrder?.push(name);
+        }
+      }
+
+      manager.register({
+        name,
+        loadFn: async () => ({
+          PluginManifest: {
+            name,
+            version,
+            entryComponent: DependencyTestComponent,
+            dependencies
+          }
+        })
+      });
+    };
+
+    it('should load dependencies before the dependent plugin', async () => {
+      const order: string[] = [];
+      registerPlugin('charts', '2.1.0', undefined, order);
+      registerPlugin('reports', '1.0.0', { charts: '^2.0.0' }, order);
+
+      await manager.load('reports');
+
+      expect(order).toEqual(['charts', 'reports']);
+      expect(manager.getPluginState('charts')).toBe(PluginState.LOADED);
+      expect(manager.getDependents('charts')).toEqual(['reports']);
+    });
+
+    it('should fail with MISSING when a dependency is not registered', async () => {
+      registerPlugin('reports', '1.0.0', { charts: '^2.0.0' });
+
+      try {
+        await manager.load('reports');
+        fail('Should have thrown dependency error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PluginDependencyError);
+        expect((error as PluginDependencyError).reason).toBe('MISSING');
+        expect((error as PluginDependencyError).dependencyName).toBe('charts');
+      }
+
+      expect(manager.getPluginState('reports')).toBe(PluginState.ERROR);
+    });
+
+    it('should fail with INCOMPATIBLE when the dependency version does not satisfy the range', async () => {
+      registerPlugin('charts', '1.4.0');
+      registerPlugin('reports', '1.0.0', { charts: '>=2.0.0 <3.0.0' });
+
+      try {
+        await manager.load('reports');
+        fail('Should have thrown dependency error');
+      } catch (error) {
+        const dependencyError = error as PluginDependencyError;
+        expect(dependencyError.reason).toBe('INCOMPATIBLE');
+        expect(dependencyError.details.requiredRange).toBe('>=2.0.0 <3.0.0');
+        expect(dependencyError.details.actualVersion).toBe('1.4.0');
+      }
+    });
+
+    it('should detect circular dependencies', async () => {
+      registerPlugin('plugin-a', '1.0.0', { 'plugin-b': '*' });
+      registerPlugin('plugin-b', '1.0.0', { 'plugin-a': '*' });
+
+      try {
+        await manager.load('plugin-a');
+        fail('Should have thrown dependency error');
+      } catch (error) {
+        expect((error as PluginDependencyError).reason).toBe('CIRCULAR');
+        expect((error as PluginDependencyError).details.cycle).toEqual(['plugin-b', 'plugin-a', 'plugin-b']);
+      }
+    });
+
+    it('should refuse to unregister a plugin that others depend on', async () => {
+      registerPlugin('charts', '2.0.0');
+      registerPlugin('reports', '1.0.0', { charts: '~2.0.0' });
+      await manager.load('reports');
+
+      try {
+        await manager.unregister('charts');
+        fail('Should have thrown dependency error');
+      } catch (error) {
+        expect((error as PluginDependencyError).reason).toBe('HAS_DEPENDENTS');
+        expect((error as PluginDependencyError).details.dependents).toEqual(['reports']);
+      }
+
+      expect(manager.getPluginState('charts')).toBe(PluginState.LOADED);
+    });
+
+    it('should unregister dependents first when cascade is set', async () => {
+      registerPlugin('charts', '2.0.0');
+      registerPlugin('reports', '1.0.0', { charts: '2.x' });
+      await manager.load('reports');
+
+      await manager.unregister('charts', { cascade: true });
+
+      expect(manager.getPluginState('reports')).toBeUndefined();
+      expect(manager.getPluginState('charts')).toBeUndefined();
+    });
+  });
+
+  describe('v1.5.0 Load Retries', () => {
+    const createFlakyRegistration = (failures: number, config: PluginRegistration['config']) => {
+      let calls = 0;
+      const registration: PluginRegistration = {
+        name: 'flaky-plugin',
+        loadFn: async () => {
+          calls++;
+          if (calls <= failures) {
+            throw new Error(`Chunk load failed (${calls})`);
+          }
+          return {
+            PluginManifest: {
+              name: 'flaky-plugin',
+              version: '1.0.0',
+              entryComponent: MockPluginComponent
+            }
+          };
+        },
+        config
+      };
+      return { registration, getCalls: () => calls };
+    };
+
+    it('should not retry when retryOnError is not set', async () => {
+      const { registration, getCalls } = createFlakyRegistration(1, {});
+      manager.register(registration);
+
+      await expectAsync(manager.load('flaky-plugin')).toBeRejectedWithError(PluginLoadError);
+
+      expect(getCalls()).toBe(1);
+      expect(manager.getPluginInfo('flaky-plugin')!.retryHistory.length).toBe(1);
+    });
+
+    it('should retry the loadFn until it succeeds', async () => {
+      const { registration, getCalls } = createFlakyRegistration(2, {
+        retryOnError: true,
+        maxRetries: 3,
+        retryBackoff: 'fixed',
+        retryDelay: 1
+      });
+      manager.register(registration);
+
+      const attempts: number[] = [];
+      const subscription = manager.pluginState$.subscribe(event => {
+        if (event.pluginName === 'flaky-plugin' && event.state === PluginState.LOADING) {
+          attempts.push(event.attempt!);
+        }
+      });
+
+      const metadata = await manager.load('flaky-plugin');
+      subscription.unsubscribe();
+
+      expect(metadata.state).toBe(PluginState.LOADED);
+      expect(getCalls()).toBe(3);
+      expect(attempts).toEqual([1, 2, 3]);
+
+      const history = manager.getPluginInfo('flaky-plugin')!.retryHistory;
+      expect(history.map(entry => entry.attempt)).toEqual([1, 2]);
+      expect(history[0].error.message).toBe('Chunk load failed (1)');
+      expect(history[0].retryDelay).toBe(1);
+    });
+
+    it('should move to ERROR after maxRetries is exhausted', async () => {
+      const { registration, getCalls } = createFlakyRegistration(10, {
+        retryOnError: true,
+        maxRetries: 2,
+        retryBackoff: 'jittered',
+        retryDelay: 1
+      });
+      manager.register(registration);
+
+      await expectAsync(manager.load('flaky-plugin')).toBeRejectedWithError(PluginLoadError);
+
+      const info = manager.getPluginInfo('flaky-plugin')!;
+      expect(getCalls()).toBe(3);
+      expect(info.state).toBe(PluginState.ERROR);
+      expect(info.retryHistory.length).toBe(3);
+      expect(info.retryHistory[2].retryDelay).toBeUndefined();
+    });
+  });
+
+  describe('v1.5.0 Cross-plugin Events', () => {
+    it('should route events between plugins and tear down on unregister', async () => {
+      const received: any[] = [];
+
+      class ListenerComponent implements PluginLifecycle {
+        onLoad(context: any) {
+          context.subscribe('sender:ping', (data: any) => received.push(data));
+        }
+      }
+
+      for (const [name, component] of [['sender', MockPluginComponent], ['listener', ListenerComponent]] as const) {
+        manager.register({
+          name,
+          loadFn: async () => ({
+            PluginManifest: { name, version: '1.0.0', entryComponent: component }
+          })
+        });
+        await manager.load(name);
+      }
+
+      registry.getContext('sender')!.emit('ping', 1);
+      await manager.unregister('listener');
+      registry.getContext('sender')!.emit('ping', 2);
+
+      expect(received).toEqual([1]);
+    });
+
+    it('should remove request handlers when the responding plugin is unregistered', async () => {
+      class ResponderComponent implements PluginLifecycle {
+        onLoad(context: any) {
+          context.handle('customer-id', () => 'c-42');
+        }
+      }
+
+      for (const [name, component] of [['crm', ResponderComponent], ['invoice', MockPluginComponent]] as const) {
+        manager.register({
+          name,
+          loadFn: async () => ({
+            PluginManifest: { name, version: '1.0.0', entryComponent: component }
+          })
+        });
+        await manager.load(name);
+      }
+
+      const invoiceContext = registry.getContext('invoice')!;
+      await expectAsync(invoiceContext.request('crm:customer-id')).toBeResolvedTo('c-42');
+
+      await manager.unregister('crm');
+
+      await expectAsync(
+        invoiceContext.request('crm:customer-id', undefined, { timeout: 20 })
+      ).toBeRejectedWithError(PluginRequestTimeoutError);
+    });
+  });
+
+  describe('v1.5.0 Plugin-provided Services', () => {
+    const PRICING_SERVICE = new InjectionToken<{ price: (sku: string) => number }>('PRICING_SERVICE');
+
+    beforeEach(() => {
+      manager.register({
+        name: 'pricing',
+        loadFn: async () => ({
+          PluginManifest: {
+            name: 'pricing',
+            version: '1.0.0',
+            entryComponent: MockPluginComponent,
+            providers: [{ provide: PRICING_SERVICE, useValue: { price: () => 42 } }],
+            provides: [PRICING_SERVICE]
+          }
+        })
+      });
+
+      manager.register({
+        name: 'cart',
+        loadFn: async () => ({
+          PluginManifest: { name: 'cart', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+    });
+
+    it('should resolve services exported by a loaded plugin', async () => {
+      await manager.load('cart');
+      const cartContext = registry.getContext('cart')!;
+
+      expect(cartContext.getService(PRICING_SERVICE)).toBeNull();
+
+      await manager.load('pricing');
+
+      expect(cartContext.getService(PRICING_SERVICE)!.price('sku-1')).toBe(42);
+      expect(manager.getDependents('pricing')).toEqual(['cart']);
+    });
+
+    it('should block unloading a provider while consumers are loaded', async () => {
+      await manager.load('pricing');
+      await manager.load('cart');
+      registry.getContext('cart')!.getService(PRICING_SERVICE);
+
+      await expectAsync(manager.unregister('pricing')).toBeRejectedWithError(PluginDependencyError);
+
+      await manager.unregister('pricing', { cascade: true });
+      expect(manager.getPluginState('cart')).toBeUndefined();
+    });
+
+    it('should stop tracking consumers once they are unregistered', async () => {
+      await manager.load('pricing');
+      await manager.load('cart');
+      registry.getContext('cart')!.getService(PRICING_SERVICE);
+
+      await manager.unregister('cart');
+
+      expect(manager.getDependents('pricing')).toEqual([]);
+      await expectAsync(manager.unregister('pricing')).toBeResolved();
+    });
+  });
+
+  describe('v1.5.0 Multiple Component Instances', () => {
+    const createViewContainer = () => {
+      const viewContainer = jasmine.createSpyObj('ViewContainerRef', ['createComponent']);
+      viewContainer.createComponent.and.callFake(() => {
+        const destroyCallbacks: Array<() => void> = [];
+        return {
+          instance: new MockPluginComponent(),
+          destroy: jasmine.createSpy('destroy').and.callFake(() => destroyCallbacks.forEach(fn => fn())),
+          onDestroy: (fn: () => void) => destroyCallbacks.push(fn)
+        };
+      });
+      return viewContainer;
+    };
+
+    beforeEach(async () => {
+      manager.register({
+        name: 'widget',
+        loadFn: async () => ({
+          PluginManifest: { name: 'widget', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+      await manager.load('widget');
+    });
+
+    it('should keep existing instances when creating another one', async () => {
+      const first = await manager.createPluginComponent('widget', createViewContainer());
+      const second = await manager.createPluginComponent('widget', createViewContainer());
+
+      expect(first.destroy).not.toHaveBeenCalled();
+      expect(manager.getPluginInstances('widget').map(i => i.componentRef)).toEqual([first, second]);
+      expect(manager.getPluginInfo('widget')!.instanceCount).toBe(2);
+
+      const instanceIds = manager.getPluginInstances('widget').map(i => i.instanceId);
+      expect(new Set(instanceIds).size).toBe(2);
+    });
+
+    it('should allow concurrent creation for several outlets', async () => {
+      const refs = await Promise.all([
+        manager.createPluginComponent('widget', createViewContainer()),
+        manager.createPluginComponent('widget', createViewContainer())
+      ]);
+
+      expect(refs.every(ref => (ref.instance as MockPluginComponent).onActivateCalled)).toBe(true);
+      expect(manager.getPluginMetadata('widget')!.isCreatingComponent).toBe(false);
+    });
+
+    it('should stay ACTIVE until the last instance is destroyed', async () => {
+      const first = await manager.createPluginComponent('widget', createViewContainer());
+      const second = await manager.createPluginComponent('widget', createViewContainer());
+
+      await manager.destroyPluginComponent('widget', first);
+      expect((first.instance as MockPluginComponent).onDeactivateCalled).toBe(true);
+      expect((second.instance as MockPluginComponent).onDeactivateCalled).toBe(false);
+      expect(manager.getPluginState('widget')).toBe(PluginState.ACTIVE);
+
+      const [remaining] = manager.getPluginInstances('widget');
+      await manager.destroyPluginComponent('widget', remaining.instanceId);
+      expect(manager.getPluginState('widget')).toBe(PluginState.LOADED);
+      expect(manager.getPluginInfo('widget')!.hasComponent).toBe(false);
+    });
+
+    it('should forget instances destroyed outside the manager', async () => {
+      const ref = await manager.createPluginComponent('widget', createViewContainer());
+
+      ref.destroy();
+
+      expect(manager.getPluginInstances('widget').length).toBe(0);
+      expect(manager.getPluginState('widget')).toBe(PluginState.LOADED);
+    });
+
+    it('should tear down all instances on unregister', async () => {
+      const first = await manager.createPluginComponent('widget', createViewContainer());
+      const second = await manager.createPluginComponent('widget', createViewContainer());
+
+      await manager.unregister('widget');
+
+      expect(first.destroy).toHaveBeenCalled();
+      expect(second.destroy).toHaveBeenCalled();
+      expect((first.instance as MockPluginComponent).onDestroyCalled).toBe(true);
+      expect((second.instance as MockPluginComponent).onDestroyCalled).toBe(true);
+    });
+  });
+
+  describe('v1.5.0 Deactivate and Activate', () => {
+    let loadCount: number;
+
+    const createViewContainer = () => {
+      const viewContainer = jasmine.createSpyObj('ViewContainerRef', ['createComponent']);
+      viewContainer.createComponent.and.callFake(() => ({
+        instance: new MockPluginComponent(),
+        destroy: jasmine.createSpy('destroy')
+      }));
+      return viewContainer;
+    };
+
+    beforeEach(async () => {
+      loadCount = 0;
+      manager.register({
+        name: 'toggle-plugin',
+        loadFn: async () => {
+          loadCount++;
+          return {
+            PluginManifest: { name: 'toggle-plugin', version: '1.0.0', entryComponent: MockPluginComponent }
+          };
+        }
+      });
+      await manager.load('toggle-plugin');
+    });
+
+    it('should return an ACTIVE plugin to LOADED and keep its injector and context', async () => {
+      const viewContainer = createViewContainer();
+      const componentRef = await manager.createPluginComponent('toggle-plugin', viewContainer);
+      const injector = registry.getInjector('toggle-plugin');
+      const context = registry.getContext('toggle-plugin');
+
+      await manager.deactivate('toggle-plugin');
+
+      expect((componentRef.instance as MockPluginComponent).onDeactivateCalled).toBe(true);
+      expect(componentRef.destroy).toHaveBeenCalled();
+      expect(manager.getPluginState('toggle-plugin')).toBe(PluginState.LOADED);
+      expect(registry.getInjector('toggle-plugin')).toBe(injector);
+      expect(registry.getContext('toggle-plugin')).toBe(context);
+    });
+
+    it('should re-create the plugin where it was deactivated without reloading', async () => {
+      const viewContainer = createViewContainer();
+      await manager.createPluginComponent('toggle-plugin', viewContainer);
+      await manager.deactivate('toggle-plugin');
+
+      const refs = await manager.activate('toggle-plugin');
+
+      expect(refs.length).toBe(1);
+      expect(viewContainer.createComponent).toHaveBeenCalledTimes(2);
+      expect((refs[0].instance as MockPluginComponent).onActivateCalled).toBe(true);
+      expect(manager.getPluginState('toggle-plugin')).toBe(PluginState.ACTIVE);
+      expect(loadCount).toBe(1);
+    });
+
+    it('should activate into an explicit view container', async () => {
+      const viewContainer = createViewContainer();
+
+      const [componentRef] = await manager.activate('toggle-plugin', viewContainer);
+
+      expect(viewContainer.createComponent).toHaveBeenCalled();
+      expect(componentRef).toBeDefined();
+    });
+
+    it('should reject activate when there is nowhere to render', async () => {
+      await expectAsync(manager.activate('toggle-plugin')).toBeRejectedWithError(/no view container/);
+    });
+
+    it('should reject deactivate for plugins that are not loaded', async () => {
+      manager.register({
+        name: 'registered-only',
+        loadFn: async () => ({
+          PluginManifest: { name: 'registered-only', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+
+      await expectAsync(manager.deactivate('registered-only')).toBeRejectedWithError(PluginStateError);
+    });
+  });
+
+  describe('v1.5.0 Hot Reload', () => {
+    let version: string;
+    let failNextLoad: boolean;
+    let failOnLoad: boolean;
+
+    class StatefulComponent extends MockPluginComponent {
+      counter = 0;
+      restored: unknown;
+
+      onBeforeReload() {
+        return { counter: this.counter };
+      }
+
+      onAfterReload(state: unknown) {
+        this.restored = state;
+      }
+    }
+
+    class BrokenComponent extends StatefulComponent {
+      override async onLoad(): Promise<void> {
+        throw new Error('onLoad failed');
+      }
+    }
+
+    const createViewContainer = () => {
+      const views: unknown[] = [{}];
+      const viewContainer = jasmine.createSpyObj('ViewContainerRef', ['createComponent', 'indexOf', 'move']);
+      viewContainer.createComponent.and.callFake(() => {
+        const hostView = {};
+        views.push(hostView);
+        return { instance: new StatefulComponent(), hostView, destroy: jasmine.createSpy('destroy') };
+      });
+      viewContainer.indexOf.and.callFake((view: unknown) => views.indexOf(view));
+      return viewContainer;
+    };
+
+    beforeEach(async () => {
+      version = '1.0.0';
+      failNextLoad = false;
+      failOnLoad = false;
+      manager.register({
+        name: 'hot-plugin',
+        loadFn: async () => {
+          if (failNextLoad) {
+            throw new Error('Network error');
+          }
+          return {
+            PluginManifest: {
+              name: 'hot-plugin',
+              version,
+              entryComponent: failOnLoad ? BrokenComponent : StatefulComponent
+            }
+          };
+        }
+      });
+      await manager.load('hot-plugin');
+    });
+
+    it('should swap the manifest of a LOADED plugin', async () => {
+      version = '1.1.0';
+
+      await manager.reload('hot-plugin');
+
+      expect(manager.getPluginMetadata('hot-plugin')!.manifest!.version).toBe('1.1.0');
+      expect(manager.getPluginState('hot-plugin')).toBe(PluginState.LOADED);
+    });
+
+    it('should re-create instances in place and hand over their state', async () => {
+      const viewContainer = createViewContainer();
+      const oldRef = await manager.createPluginComponent('hot-plugin', viewContainer);
+      (oldRef.instance as StatefulComponent).counter = 3;
+      const oldContext = registry.getContext('hot-plugin');
+
+      await manager.reload('hot-plugin');
+
+      const [instance] = manager.getPluginInstances('hot-plugin');
+      expect(oldRef.destroy).toHaveBeenCalled();
+      expect(instance.componentRef).not.toBe(oldRef);
+      expect((instance.componentRef.instance as StatefulComponent).restored).toEqual({ counter: 3 });
+      expect(viewContainer.move).toHaveBeenCalledWith(instance.componentRef.hostView, 1);
+      expect(registry.getContext('hot-plugin')).not.toBe(oldContext);
+      expect(manager.getPluginState('hot-plugin')).toBe(PluginState.ACTIVE);
+    });
+
+    it('should keep the running version when fetching the new module fails', async () => {
+      const componentRef = await manager.createPluginComponent('hot-plugin', createViewContainer());
+      failNextLoad = true;
+
+      await expectAsync(manager.reload('hot-plugin')).toBeRejectedWithError(PluginLoadError);
+
+      expect(componentRef.destroy).not.toHaveBeenCalled();
+      expect(manager.getPluginState('hot-plugin')).toBe(PluginState.ACTIVE);
+      expect(manager.getPluginInstances('hot-plugin').length).toBe(1);
+    });
+
+    it('should restore the previous version when the new onLoad fails', async () => {
+      const viewContainer = createViewContainer();
+      const oldRef = await manager.createPluginComponent('hot-plugin', viewContainer);
+      (oldRef.instance as StatefulComponent).counter = 5;
+      version = '2.0.0';
+      failOnLoad = true;
+
+      await expectAsync(manager.reload('hot-plugin')).toBeRejectedWithError(PluginLoadError);
+
+      const [instance] = manager.getPluginInstances('hot-plugin');
+      expect(manager.getPluginState('hot-plugin')).toBe(PluginState.ACTIVE);
+      expect(manager.getPluginMetadata('hot-plugin')!.manifest!.version).toBe('1.0.0');
+      expect(manager.getPluginInstances('hot-plugin').length).toBe(1);
+      expect((instance.componentRef.instance as StatefulComponent).restored).toEqual({ counter: 5 });
+      expect(viewContainer.move).toHaveBeenCalledWith(instance.componentRef.hostView, 1);
+    });
+
+    it('should reject reload for plugins that are not loaded', async () => {
+      manager.register({
+        name: 'cold-plugin',
+        loadFn: async () => ({
+          PluginManifest: { name: 'cold-plugin', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+
+      await expectAsync(manager.reload('cold-plugin')).toBeRejectedWithError(PluginStateError);
+    });
+  });
+
+  describe('v1.5.0 State Transitions', () => {
+    beforeEach(() => {
+      manager.register({
+        name: 'fsm-plugin',
+        loadFn: async () => ({
+          PluginManifest: { name: 'fsm-plugin', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+    });
+
+    it('should emit every transition of a load with from and to', async () => {
+      const transitions: string[] = [];
+      manager.pluginState$.subscribe(event => {
+        if (event.pluginName === 'fsm-plugin' && event.from) {
+          transitions.push(`${event.from}->${event.to}`);
+        }
+      });
+
+      await manager.load('fsm-plugin');
+
+      expect(transitions).toEqual(['REGISTERED->LOADING', 'LOADING->LOADED']);
+    });
+
+    it('should expose the allowed next states', async () => {
+      expect(manager.canTransition('fsm-plugin', PluginState.ACTIVE)).toBe(false);
+
+      await manager.load('fsm-plugin');
+
+      expect(manager.getAllowedTransitions('fsm-plugin')).toContain(PluginState.ACTIVE);
+      expect(manager.canTransition('fsm-plugin', PluginState.ACTIVE)).toBe(true);
+      expect(manager.canTransition('unknown', PluginState.LOADING)).toBe(false);
+    });
+  });
+
+  describe('v1.5.0 Plugin Catalog', () => {
+    let loadRemoteSpy: jasmine.Spy;
+
+    const catalog = (...plugins: any[]): PluginCatalog => ({ schemaVersion: 1, plugins });
+    const entry = (name: string, version = '1.0.0') => ({
+      name,
+      remoteUrl: `https://cdn.example.com/plugins/${name}-${version}.js`,
+      exposedModule: name,
+      version
+    });
+
+    beforeEach(() => {
+      loadRemoteSpy = spyOn(TestBed.inject(RemotePluginLoader), 'loadRemotePlugin').and.callFake(
+        async (config: RemotePluginConfig) => ({
+          module: {
+            PluginManifest: { name: config.name, version: config.version!, entryComponent: MockPluginComponent }
+          },
+          loadTime: 0,
+          fromCache: false
+        })
+      );
+    });
+
+    it('should register every entry without fetching scripts', async () => {
+      const diff = await manager.registerCatalog(catalog(entry('alpha'), entry('beta')));
+
+      expect(diff.added).toEqual(['alpha', 'beta']);
+      expect(manager.getPluginState('alpha')).toBe(PluginState.REGISTERED);
+      expect(loadRemoteSpy).not.toHaveBeenCalled();
+
+      await manager.load('alpha');
+
+      expect(loadRemoteSpy).toHaveBeenCalledTimes(1);
+      expect(manager.getPluginMetadata('alpha')!.manifest.version).toBe('1.0.0');
+    });
+
+    it('should auto-load entries that ask for it', async () => {
+      await manager.registerCatalog(catalog({ ...entry('eager'), autoLoad: true }));
+      await new Promise(resolve => setTimeout(resolve));
+
+      expect(manager.getPluginState('eager')).toBe(PluginState.LOADED);
+    });
+
+    it('should report every problem in an invalid catalog', async () => {
+      const invalid = { schemaVersion: 2, plugins: [{ name: 'x' }, entry('x')] };
+
+      await expectAsync(manager.registerCatalog(invalid as any)).toBeRejectedWith(
+        jasmine.objectContaining({
+          name: 'PluginCatalogError',
+          problems: jasmine.arrayContaining([
+            jasmine.stringMatching(/schemaVersion/),
+            jasmine.stringMatching(/plugins\[0\]\.remoteUrl/),
+            jasmine.stringMatching(/listed more than once/)
+          ])
+        })
+      );
+      expect(manager.getPluginState('x')).toBeUndefined();
+    });
+
+    it('should fetch a catalog by URL and resolve relative remote URLs', async () => {
+      spyOn(globalThis, 'fetch').and.resolveTo(
+        new Response(JSON.stringify(catalog({ ...entry('remote'), remoteUrl: 'bundles/remote.js' })))
+      );
+
+      await manager.registerCatalog('https://cdn.example.com/catalog.json');
+      await manager.load('remote');
+
+      expect(loadRemoteSpy.calls.mostRecent().args[0].remoteUrl).toBe('https://cdn.example.com/bundles/remote.js');
+    });
+
+    it('should reject a catalog entry that clashes with a registered plugin', async () => {
+      manager.register({
+        name: 'alpha',
+        loadFn: async () => ({
+          PluginManifest: { name: 'alpha', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+
+      await expectAsync(manager.registerCatalog(catalog(entry('alpha')))).toBeRejectedWithError(PluginCatalogError);
+    });
+
+    it('should add, update and remove plugins when the catalog is refreshed', async () => {
+      await manager.registerCatalog(catalog(entry('keep'), entry('upgrade'), entry('drop')));
+      await manager.load('upgrade');
+
+      const diff = await manager.registerCatalog(catalog(entry('keep'), entry('upgrade', '2.0.0'), entry('fresh')));
+
+      expect(diff).toEqual({ added: ['fresh'], updated: ['upgrade'], removed: ['drop'], unchanged: ['keep'] });
+      expect(manager.getPluginState('drop')).toBeUndefined();
+      expect(manager.getPluginState('upgrade')).toBe(PluginState.LOADED);
+      expect(manager.getPluginMetadata('upgrade')!.manifest.version).toBe('2.0.0');
+    });
+  });
+
+  describe('v1.5.0 Lazy Remote Registration', () => {
+    const config: RemotePluginConfig = {
+      name: 'lazy-remote',
+      remoteUrl: 'https://cdn.example.com/plugins/lazy-remote.js',
+      exposedModule: 'LazyRemote'
+    };
+
+    let loadRemoteSpy: jasmine.Spy;
+
+    beforeEach(() => {
+      loadRemoteSpy = spyOn(TestBed.inject(RemotePluginLoader), 'loadRemotePlugin').and.resolveTo({
+        module: { PluginManifest: { name: 'lazy-remote', version: '1.0.0', entryComponent: MockPluginComponent } },
+        loadTime: 0,
+        fromCache: false
+      });
+    });
+
+    it('should register without fetching the script', async () => {
+      const metadata = await manager.registerRemotePlugin(config, { lazy: true });
+
+      expect(metadata.state).toBe(PluginState.REGISTERED);
+      expect(loadRemoteSpy).not.toHaveBeenCalled();
+      expect(metadata.remote).toEqual(
+        jasmine.objectContaining({ url: config.remoteUrl, lazy: true, loadTime: undefined })
+      );
+    });
+
+    it('should fetch the script on load', async () => {
+      await manager.registerRemotePlugin(config, { lazy: true });
+
+      await manager.load('lazy-remote');
+
+      expect(loadRemoteSpy).toHaveBeenCalledOnceWith(config);
+      expect(manager.getPluginState('lazy-remote')).toBe(PluginState.LOADED);
+      expect(manager.getPluginInfo('lazy-remote')!.remote!.loadTime).toBe(0);
+    });
+
+    it('should keep fetching eagerly by default', async () => {
+      await manager.registerRemotePlugin(config);
+
+      expect(loadRemoteSpy).toHaveBeenCalled();
+      expect(manager.getPluginState('lazy-remote')).toBe(PluginState.LOADED);
+    });
+  });
+
+  describe('v1.5.0 Remote Plugin Tracking', () => {
+    let loader: RemotePluginLoader;
+
+    const shared = (name: string): RemotePluginConfig => ({
+      name,
+      remoteUrl: 'https://cdn.example.com/plugins/bundle.mjs',
+      exposedModule: name,
+      format: 'esm'
+    });
+
+    beforeEach(() => {
+      loader = TestBed.inject(RemotePluginLoader);
+      const manifest = (name: string) => ({
+        PluginManifest: { name, version: '1.0.0', entryComponent: MockPluginComponent }
+      });
+      spyOn(loader as any, 'importModule').and.resolveTo({
+        first: manifest('first'),
+        second: manifest('second'),
+        other: manifest('other')
+      });
+    });
+
+    afterEach(() => {
+      loader.clearCache();
+    });
+
+    it('should describe the remote origin in a typed remote section', async () => {
+      const metadata = await manager.registerRemotePlugin(shared('first'));
+
+      expect(metadata.remote).toEqual({
+        url: 'https://cdn.example.com/plugins/bundle.mjs',
+        exposedModule: 'first',
+        format: 'esm',
+        version: undefined,
+        lazy: false,
+        loadTime: jasmine.any(Number),
+        fromCache: false
+      });
+      expect(loader.getPluginUrl('first')).toBe('https://cdn.example.com/plugins/bundle.mjs');
+    });
+
+    it('should keep a shared bundle cached until its last plugin is unregistered', async () => {
+      await manager.registerRemotePlugin(shared('first'));
+      await manager.registerRemotePlugin(shared('second'));
+
+      expect(manager.getPluginMetadata('second')!.manifest.name).toBe('second');
+      expect(loader.getCacheStats().entries.map(entry => entry.plugins)).toEqual([['first'], ['second']]);
+
+      await manager.unregisterRemotePlugin('first');
+      expect(loader.getCacheStats().entries.map(entry => entry.plugins)).toEqual([['second']]);
+
+      await manager.unregisterRemotePlugin('second');
+      expect(loader.getCacheStats().size).toBe(0);
+    });
+
+    it('should not evict bundles whose URL merely contains the plugin name', async () => {
+      await manager.registerRemotePlugin({ ...shared('other'), remoteUrl: 'https://cdn.example.com/plugins/bundle-extra.mjs' });
+      manager.register({
+        name: 'bundle',
+        loadFn: async () => ({
+          PluginManifest: { name: 'bundle', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+
+      await manager.unregisterRemotePlugin('bundle');
+
+      expect(loader.getCacheStats().size).toBe(1);
+    });
+  });
+
+  describe('v1.5.0 Plugin Updates', () => {
+    let fetchSpy: jasmine.Spy;
+
+    class BrokenComponent extends MockPluginComponent {
+      override async onLoad() {
+        throw new Error('onLoad failed');
+      }
+    }
+
+    const entry = (version: string) => ({
+      name: 'updatable',
+      remoteUrl: `https://cdn.example.com/plugins/updatable-${version}.js`,
+      exposedModule: 'updatable',
+      version
+    });
+    const catalog = (version: string): PluginCatalog => ({ schemaVersion: 1, plugins: [entry(version)] });
+
+    const createViewContainer = () => {
+      const viewContainer = jasmine.createSpyObj('ViewContainerRef', ['createComponent']);
+      viewContainer.createComponent.and.callFake((component: new () => PluginLifecycle) => ({
+        instance: new component(),
+        hostView: {},
+        destroy: jasmine.createSpy('destroy')
+      }));
+      return viewContainer;
+    };
+
+    beforeEach(async () => {
+      spyOn(TestBed.inject(RemotePluginLoader), 'loadRemotePlugin').and.callFake(async (config: RemotePluginConfig) => ({
+        module: {
+          PluginManifest: {
+            name: config.name,
+            version: config.version!,
+            entryComponent: config.version === '3.0.0' ? BrokenComponent : MockPluginComponent
+          }
+        },
+        loadTime: 0,
+        fromCache: false
+      }));
+      fetchSpy = spyOn(globalThis, 'fetch').and.callFake(async () => new Response(JSON.stringify(catalog('1.0.0'))));
+
+      await manager.registerCatalog('https://cdn.example.com/catalog.json');
+      await manager.load('updatable');
+    });
+
+    it('should report newer catalog versions without applying them', async () => {
+      fetchSpy.and.callFake(async () => new Response(JSON.stringify(catalog('1.2.0'))));
+
+      const updates = await manager.checkForUpdates();
+
+      expect(updates).toEqual([
+        {
+          name: 'updatable',
+          catalogId: 'https://cdn.example.com/catalog.json',
+          currentVersion: '1.0.0',
+          availableVersion: '1.2.0',
+          config: jasmine.objectContaining({ version: '1.2.0' })
+        }
+      ]);
+      expect(manager.getPluginMetadata('updatable')!.manifest.version).toBe('1.0.0');
+    });
+
+    it('should ignore catalog versions that are not newer', async () => {
+      fetchSpy.and.callFake(async () => new Response(JSON.stringify(catalog('0.9.0'))));
+
+      expect(await manager.checkForUpdates()).toEqual([]);
+    });
+
+    it('should upgrade an ACTIVE plugin in its view container', async () => {
+      const viewContainer = createViewContainer();
+      const oldRef = await manager.createPluginComponent('updatable', viewContainer);
+
+      await manager.upgrade('updatable', entry('2.0.0'));
+
+      const [instance] = manager.getPluginInstances('updatable');
+      expect(oldRef.destroy).toHaveBeenCalled();
+      expect(instance.viewContainer).toBe(viewContainer);
+      expect(manager.getPluginState('updatable')).toBe(PluginState.ACTIVE);
+      expect(manager.getPluginMetadata('updatable')!.manifest.version).toBe('2.0.0');
+      expect(manager.getPluginMetadata('updatable')!.remote!.version).toBe('2.0.0');
+
+      fetchSpy.and.callFake(async () => new Response(JSON.stringify(catalog('2.0.0'))));
+      expect(await manager.checkForUpdates()).toEqual([]);
+    });
+
+    it('should roll back to the previous version when onLoad fails', async () => {
+      await manager.createPluginComponent('updatable', createViewContainer());
+
+      const error = await manager.upgrade('updatable', entry('3.0.0')).catch(e => e);
+
+      expect(error).toEqual(jasmine.any(PluginUpgradeError));
+      expect(error.rolledBack).toBe(true);
+      expect(error.toVersion).toBe('3.0.0');
+
+      expect(manager.getPluginState('updatable')).toBe(PluginState.ACTIVE);
+      expect(manager.getPluginMetadata('updatable')!.manifest.version).toBe('1.0.0');
+      expect(manager.getPluginMetadata('updatable')!.remote!.version).toBe('1.0.0');
+      expect(manager.getPluginInstances('updatable').length).toBe(1);
+    });
+
+    it('should reject upgrades of plugins not registered from a remote URL', async () => {
+      manager.register({
+        name: 'local',
+        loadFn: async () => ({
+          PluginManifest: { name: 'local', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+
+      await expectAsync(manager.upgrade('local', { ...entry('2.0.0'), name: 'local' })).toBeRejectedWith(
+        jasmine.objectContaining({ message: jasmine.stringMatching(/cannot be upgraded/) })
+      );
+    });
+  });
+
+  describe('v1.5.0 Sandboxed Plugins', () => {
+    const ANALYTICS = new InjectionToken<{ track(event: string): string }>('analytics');
+    const SECRET = new InjectionToken<{ read(): string }>('secret');
+
+    const config: RemotePluginConfig = {
+      name: 'untrusted',
+      remoteUrl: 'https://third-party.example.com/widget.js',
+      exposedModule: 'Widget',
+      version: '1.2.0',
+      sandbox: { services: { analytics: ANALYTICS, secret: SECRET } }
+    };
+
+    let loadRemoteSpy: jasmine.Spy;
+    let channel: MessageChannel;
+    let bridge: PluginSandboxBridge;
+    let received: any[];
+
+    // Plays the iframe side of the bridge
+    const send = (message: unknown) => channel.port2.postMessage(message);
+    const nextMessage = () => new Promise<any>(resolve => setTimeout(() => resolve(received.shift()), 20));
+
+    beforeEach(async () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          PluginManager,
+          PluginRegistry,
+          { provide: PLUGIN_SYSTEM_CONFIG, useValue: { defaultAllowedServices: [ANALYTICS] } },
+          { provide: ANALYTICS, useValue: { track: (event: string) => `tracked ${event}` } },
+          { provide: SECRET, useValue: { read: () => 'secret' } }
+        ]
+      });
+      manager = TestBed.inject(PluginManager);
+      registry = TestBed.inject(PluginRegistry);
+      loadRemoteSpy = spyOn(TestBed.inject(RemotePluginLoader), 'loadRemotePlugin');
+
+      await manager.registerRemotePlugin(config);
+
+      received = [];
+      channel = new MessageChannel();
+      channel.port2.onmessage = event => received.push(event.data);
+      bridge = new PluginSandboxBridge(channel.port1, registry.getContext('untrusted')!, { analytics: ANALYTICS, secret: SECRET });
+    });
+
+    afterEach(() => {
+      bridge.destroy();
+      channel.port2.close();
+    });
+
+    it('should load without fetching the bundle in the host realm', () => {
+      const metadata = manager.getPluginMetadata('untrusted')!;
+
+      expect(loadRemoteSpy).not.toHaveBeenCalled();
+      expect(metadata.state).toBe(PluginState.LOADED);
+      expect(metadata.manifest.entryComponent).toBe(PluginSandboxComponent);
+      expect(metadata.manifest.version).toBe('1.2.0');
+    });
+
+    it('should build an iframe document that loads the bundle after the bridge runtime', () => {
+      const html = createSandboxDocument({ ...config, exposedModule: '</script><script>alert(1)' }, ['analytics']);
+
+      expect(html).toContain('<script src="https://third-party.example.com/widget.js"></script>');
+      expect(html.indexOf('__CONFIG__')).toBe(-1);
+      expect(html).not.toContain('</script><script>alert(1)');
+    });
+
+    it('should set the CSP nonce on the iframe scripts', () => {
+      spyOn(TestBed.inject(RemotePluginLoader), 'getScriptNonce').and.returnValue('r4nd0m');
+      const manifest = manager.getPluginMetadata('untrusted')!.manifest;
+      const getNonce = manifest.providers!.find((provider: any) => provider.provide === PLUGIN_SANDBOX_NONCE) as { useValue: () => string };
+
+      const html = createSandboxDocument(config, ['analytics'], getNonce.useValue());
+
+      expect(html.match(/<script nonce="r4nd0m">/g)!.length).toBe(1);
+      expect(html).toContain('<script src="https://third-party.example.com/widget.js" nonce="r4nd0m"></script>');
+      expect(createSandboxDocument(config, [])).not.toContain('nonce=');
+    });
+
+    it('should check the integrity of an ESM bundle on the module request', () => {
+      const html = createSandboxDocument(
+        { ...config, format: 'esm', remoteUrl: 'https://third-party.example.com/widget.mjs', integrity: 'sha384-abc' },
+        []
+      );
+
+      expect(html).toContain(
+        '<script type="module" src="https://third-party.example.com/widget.mjs" integrity="sha384-abc" crossorigin="anonymous"></script>'
+      );
+      expect(html).toContain('<script type="module">import * as namespace from "https://third-party.example.com/widget.mjs";');
+      expect(html.indexOf('src="https://third-party.example.com/widget.mjs"'))
+        .toBeLessThan(html.indexOf('import * as namespace'));
+    });
+
+    it('should call whitelisted services and reject others', async () => {
+      send({ type: 'call', id: 1, service: 'analytics', method: 'track', args: ['click'] });
+      expect(await nextMessage()).toEqual({ type: 'result', id: 1, value: 'tracked click' });
+
+      send({ type: 'call', id: 2, service: 'secret', method: 'read', args: [] });
+      expect((await nextMessage()).error).toMatch(/not available/);
+
+      send({ type: 'call', id: 3, service: 'analytics', method: 'constructor', args: [] });
+      expect((await nextMessage()).error).toMatch(/not a method/);
+
+      send({ type: 'call', id: 4, service: 'router', method: 'navigate', args: [] });
+      expect((await nextMessage()).error).toMatch(/not available/);
+    });
+
+    it('should proxy emit and subscribe through the plugin context', async () => {
+      manager.register({
+        name: 'listener',
+        loadFn: async () => ({
+          PluginManifest: { name: 'listener', version: '1.0.0', entryComponent: MockPluginComponent }
+        })
+      });
+      await manager.load('listener');
+      const listenerContext = registry.getContext('listener')!;
+      const heard: unknown[] = [];
+      listenerContext.subscribe('untrusted:clicked', data => heard.push(data));
+
+      send({ type: 'emit', event: 'clicked', data: { x: 1 } });
+      send({ type: 'subscribe', event: 'listener:ping' });
+      await nextMessage();
+      listenerContext.emit('ping', 'hello');
+
+      expect(heard).toEqual([{ x: 1 }]);
+      expect(await nextMessage()).toEqual({ type: 'event', event: 'listener:ping', data: 'hello' });
+    });
+
+    it('should report mount failures through ready', async () => {
+      send({ type: 'error', message: 'mount() threw' });
+
+      await expectAsync(bridge.ready).toBeRejectedWithError(/mount\(\) threw/);
+    });
+  });
+
+  describe('v1.5.0 Worker Plugins', () => {
+    let onDestroyCalls: number;
+    let worker: { terminate: jasmine.Spy; onerror: ((event: any) => void) | null };
+
+    const pricing = {
+      total: (prices: number[]) => prices.reduce((sum, price) => sum + price, 0)
+    };
+
+    // Runs the worker half on the other end of a MessageChannel
+    const fakeWorker = (definition: PluginWorkerDefinition<typeof pricing>) => () => {
+      const channel = new MessageChannel();
+      exposePluginWorker(definition, channel.port2 as unknown as PluginWorkerScope);
+      const fake = {
+        terminate: jasmine.createSpy('terminate').and.callFake(() => channel.port1.close()),
+        onerror: null,
+        postMessage: (message: unknown) => channel.port1.postMessage(message),
+        set onmessage(handler: (event: MessageEvent) => void) {
+          channel.port1.onmessage = handler;
+        }
+      };
+      worker = fake;
+      return fake as unknown as Worker;
+    };
+
+    beforeEach(() => {
+      onDestroyCalls = 0;
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [PluginManager, PluginRegistry, { provide: PLUGIN_SYSTEM_CONFIG, useValue: { lifecycleHookTimeout: 100 } }]
+      });
+      manager = TestBed.inject(PluginManager);
+      registry = TestBed.inject(PluginRegistry);
+    });
+
+    const register = (overrides: Partial<PluginWorkerDefinition<typeof pricing>> = {}) =>
+      manager.registerWorkerPlugin({
+        name: 'pricing',
+        worker: fakeWorker({
+          version: '2.1.0',
+          api: pricing,
+          onDestroy: () => {
+            onDestroyCalls++;
+          },
+          ...overrides
+        })
+      });
+
+    it('should load a headless plugin and call its api through the proxy', async () => {
+      register();
+
+      const metadata = await manager.load('pricing');
+      const api = manager.getWorkerApi<typeof pricing>('pricing');
+
+      expect(metadata.state).toBe(PluginState.LOADED);
+      expect(metadata.manifest.version).toBe('2.1.0');
+      expect(metadata.manifest.headless).toBe(true);
+      expect(await api.total([1, 2, 3])).toBe(6);
+      await expectAsync((api as any).missing()).toBeRejectedWithError(/not exported/);
+    });
+
+    it('should enforce lifecycleHookTimeout on the worker onLoad', async () => {
+      register({ onLoad: () => new Promise<void>(() => undefined) });
+
+      await expectAsync(manager.load('pricing')).toBeRejectedWithError(PluginLoadError);
+
+      expect(manager.getPluginState('pricing')).toBe(PluginState.ERROR);
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should time out a worker that never starts once, in the worker host', async () => {
+      const silentWorker = jasmine.createSpyObj('Worker', ['postMessage', 'terminate']);
+      manager.registerWorkerPlugin({ name: 'silent', worker: () => silentWorker, config: { timeout: 30 } });
+      const setTimeoutSpy = spyOn(globalThis, 'setTimeout').and.callThrough();
+
+      const error = await manager.load('silent').then(() => null, (e: PluginLoadError) => e);
+
+      expect(error).toEqual(jasmine.any(PluginLoadError));
+      expect(error!.cause!.message).toBe('Worker of plugin silent did not call exposePluginWorker() within 30ms');
+      expect(silentWorker.terminate).toHaveBeenCalled();
+      expect(setTimeoutSpy.calls.allArgs().filter(([, delay]) => delay === 30).length).toBe(1);
+    });
+
+    it('should run onDestroy and terminate the worker on unregister', async () => {
+      register();
+      await manager.load('pricing');
+
+      await manager.unregister('pricing');
+
+      expect(onDestroyCalls).toBe(1);
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(manager.getPluginState('pricing')).toBeUndefined();
+    });
+
+    it('should not render headless plugins', async () => {
+      register();
+      await manager.load('pricing');
+
+      await expectAsync(
+        manager.createPluginComponent('pricing', jasmine.createSpyObj('ViewContainerRef', ['createComponent']))
+      ).toBeRejectedWithError(/headless/);
+    });
+
+    it('should move the plugin to ERROR when the worker crashes', async () => {
+      register();
+      await manager.load('pricing');
+      const api = manager.getWorkerApi<typeof pricing>('pricing');
+
+      worker.onerror!({ message: 'out of memory' });
+
+      expect(manager.getPluginState('pricing')).toBe(PluginState.ERROR);
+      await expectAsync(api.total([1])).toBeRejectedWithError(/not running/);
+    });
+  });
+
+  describe('v1.5.0 Plugin Permissions', () => {
+    const HTTP_SERVICE = new InjectionToken<{ get: () => string }>('HTTP_SERVICE');
+    const STORAGE_SERVICE = new InjectionToken<{ read: () => string }>('STORAGE_SERVICE');
+    const AUDIT_SERVICE = new InjectionToken<{ log: () => void }>('AUDIT_SERVICE');
+
+    const setup = (policy: PluginPermissionPolicy, config: Record<string, unknown> = {}) => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          PluginManager,
+          PluginRegistry,
+          { provide: HTTP_SERVICE, useValue: { get: () => 'response' } },
+          { provide: STORAGE_SERVICE, useValue: { read: () => 'stored' } },
+          { provide: AUDIT_SERVICE, useValue: { log: () => undefined } },
+          { provide: PLUGIN_SYSTEM_CONFIG, useValue: { ...config, permissionPolicy: policy } }
+        ]
+      });
+      manager = TestBed.inject(PluginManager);
+      registry = TestBed.inject(PluginRegistry);
+    };
+
+    const services = [
+      { token: HTTP_SERVICE, capability: 'http:read' },
+      { token: STORAGE_SERVICE, capability: 'storage' }
+    ];
+
+    const registerInvoices = (permissions: string[]) =>
+      manager.register({
+        name: 'invoices',
+        loadFn: async () => ({
+          PluginManifest: { name: 'invoices', version: '1.0.0', entryComponent: MockPluginComponent, permissions }
+        }),
+        // Ignored once a permission policy is configured
+        config: { allowedServices: [AUDIT_SERVICE] }
+      });
+
+    it('should only grant capabilities that are both requested and granted', async () => {
+      setup({ grants: { invoices: ['http:*'] }, services });
+      registerInvoices(['http:read', 'storage']);
+
+      await manager.load('invoices');
+      const context = registry.getContext('invoices')!;
+
+      expect(manager.getPluginInfo('invoices')!.grantedPermissions).toEqual(['http:read']);
+      expect(manager.hasPermission('invoices', 'http:read')).toBeTrue();
+      expect(manager.hasPermission('invoices', 'storage')).toBeFalse();
+      expect(context.getService(HTTP_SERVICE)!.get()).toBe('response');
+      expect(() => context.getService(STORAGE_SERVICE)).toThrowError(PluginPermissionError);
+    });
+
+    it('should deny services that no capability covers', async () => {
+      setup({ grants: { '*': ['*'] }, services });
+      registerInvoices(['http:read']);
+
+      await manager.load('invoices');
+
+      expect(() => registry.getContext('invoices')!.getService(AUDIT_SERVICE)).toThrowError(
+        PluginPermissionError,
+        /no capability grants it/
+      );
+    });
+
+    it('should require events capabilities for topics outside the plugin namespace', async () => {
+      setup({ grants: { invoices: ['events:crm:*'] } });
+      registerInvoices(['events:crm:*', 'events:billing:*']);
+
+      await manager.load('invoices');
+      const context = registry.getContext('invoices')!;
+      const received: unknown[] = [];
+
+      context.subscribe('crm:customer-updated', data => received.push(data));
+      TestBed.inject(PluginEventBus).publish('crm:customer-updated', { id: 'c-1' }, 'crm');
+
+      expect(received).toEqual([{ id: 'c-1' }]);
+      expect(() => context.subscribe('billing:paid', () => undefined)).toThrowError(PluginPermissionError);
+      await expectAsync(context.request('billing:total')).toBeRejectedWithError(PluginPermissionError);
+    });
+
+    it('should ask the policy about capabilities that grants do not cover', async () => {
+      const decide = jasmine.createSpy('decide').and.callFake(async ({ capability }) => capability === 'storage');
+      setup({ grants: { invoices: ['http:read'] }, decide, services });
+      registerInvoices(['http:read', 'storage', 'http:write']);
+
+      await manager.load('invoices');
+
+      expect(decide).toHaveBeenCalledTimes(2);
+      expect(decide).toHaveBeenCalledWith(jasmine.objectContaining({ pluginName: 'invoices', capability: 'http:write' }));
+      expect(manager.getPluginInfo('invoices')!.grantedPermissions).toEqual(['http:read', 'storage']);
+    });
+
+    it('should log violations instead of throwing in dev mode', async () => {
+      setup({ services }, { enableDevMode: true });
+      registerInvoices(['storage']);
+      const warn = spyOn(console, 'warn');
+
+      await manager.load('invoices');
+
+      expect(registry.getContext('invoices')!.getService(STORAGE_SERVICE)).toBeNull();
+      expect(warn).toHaveBeenCalledWith(jasmine.stringMatching(/capability 'storage' was not granted/));
+    });
+  });
+
+  describe('v1.5.0 Host Injector Filtering', () => {
+    const AUTH_SERVICE = new InjectionToken<{ token: string }>('AUTH_SERVICE');
+    const LOGGER = new InjectionToken<{ log: () => void }>('LOGGER');
+    const AUTH_CONSUMER = new InjectionToken<{ token: string }>('AUTH_CONSUMER');
+
+    @Injectable({ providedIn: 'root' })
+    class RootOnlyService {}
+
+    const setup = (config: Record<string, unknown> = {}) => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          PluginManager,
+          PluginRegistry,
+          { provide: AUTH_SERVICE, useValue: { token: 'secret' } },
+          { provide: LOGGER, useValue: { log: () => undefined } },
+          { provide: PLUGIN_SYSTEM_CONFIG, useValue: config }
+        ]
+      });
+      manager = TestBed.inject(PluginManager);
+      registry = TestBed.inject(PluginRegistry);
+    };
+
+    const loadReports = async (permissions?: string[]) => {
+      manager.register({
+        name: 'reports',
+        loadFn: async () => ({
+          PluginManifest: {
+            name: 'reports',
+            version: '1.0.0',
+            entryComponent: MockPluginComponent,
+            permissions,
+            providers: [{ provide: AUTH_CONSUMER, useFactory: () => inject(AUTH_SERVICE) }]
+          }
+        }),
+        config: { allowedServices: [LOGGER] }
+      });
+      await manager.load('reports');
+    };
+
+    it('should only resolve allowed services through context.hostInjector', async () => {
+      setup();
+      await loadReports();
+      const hostInjector = registry.getContext('reports')!.hostInjector;
+
+      expect(hostInjector.get(LOGGER)).toBe(TestBed.inject(LOGGER));
+      expect(hostInjector.get(AUTH_SERVICE, null)).toBeNull();
+      expect(() => hostInjector.get(AUTH_SERVICE)).toThrowError(PluginError, /not allowed to inject/);
+      expect(hostInjector.get(Injector)).toBe(hostInjector);
+    });
+
+    it('should apply the same filter to DI in the plugin injector', async () => {
+      setup();
+      await loadReports();
+      const pluginInjector = registry.getInjector('reports')!;
+
+      expect(() => pluginInjector.get(AUTH_CONSUMER)).toThrowError(PluginError, /AUTH_SERVICE/);
+      expect(pluginInjector.get(LOGGER)).toBe(TestBed.inject(LOGGER));
+    });
+
+    it('should throw PluginPermissionError for denied lookups under a permission policy', async () => {
+      setup({
+        permissionPolicy: {
+          grants: { reports: ['auth'] },
+          services: [{ token: AUTH_SERVICE, capability: 'auth' }]
+        }
+      });
+      await loadReports(['auth']);
+
+      expect(registry.getInjector('reports')!.get(AUTH_CONSUMER).token).toBe('secret');
+      expect(() => registry.getContext('reports')!.hostInjector.get(LOGGER)).toThrowError(PluginPermissionError);
+    });
+
+    describe('in rendered components', () => {
+      @Injectable({ providedIn: 'root' })
+      class SessionService {}
+
+      @Component({ standalone: true, template: '' })
+      class OutletHostComponent {
+        readonly viewContainer = inject(ViewContainerRef);
+      }
+
+      // Constructor injection: load() also instantiates the entry component outside DI to call onLoad
+      @Component({ standalone: true, template: '' })
+      class OptionalAuthComponent {
+        constructor(
+          @Optional() @Inject(AUTH_SERVICE) readonly auth: { token: string } | null,
+          @Inject(LOGGER) readonly logger: { log: () => void },
+          @Optional() @Inject(SessionService) readonly session: SessionService | null
+        ) {}
+      }
+
+      @Component({ standalone: true, template: '' })
+      class RequiredAuthComponent {
+        constructor(@Inject(AUTH_SERVICE) readonly auth: { token: string }) {}
+      }
+
+      const render = async (name: string, entryComponent: Type<any>) => {
+        manager.register({
+          name,
+          loadFn: async () => ({ PluginManifest: { name, version: '1.0.0', entryComponent } }),
+          config: { allowedServices: [LOGGER] }
+        });
+        await manager.load(name);
+        const host = TestBed.createComponent(OutletHostComponent).componentInstance;
+        return manager.createPluginComponent(name, host.viewContainer);
+      };
+
+      it('should not inject denied services into plugin components', async () => {
+        setup();
+
+        const componentRef = await render('optional-auth', OptionalAuthComponent);
+        const instance = componentRef.instance as unknown as OptionalAuthComponent;
+
+        expect(instance.auth).toBeNull();
+        expect(instance.session).toBeNull();
+        expect(instance.logger).toBe(TestBed.inject(LOGGER));
+      });
+
+      it('should fail to create a component that requires a denied service', async () => {
+        setup();
+
+        const error = await render('required-auth', RequiredAuthComponent).then(() => undefined, (e: Error) => e);
+
+        expect(error).toEqual(jasmine.any(PluginLoadError));
+        expect((error as PluginLoadError).cause?.message).toMatch(/not allowed to inject InjectionToken AUTH_SERVICE/);
+      });
+    });
+
+    it('should not forward root-provided services the plugin was not allowed', async () => {
+      setup();
+      await loadReports();
+      const hostInjector = registry.getContext('reports')!.hostInjector;
+
+      expect(() => hostInjector.get(RootOnlyService)).toThrowError(PluginError, /not allowed to inject RootOnlyService/);
+      expect(hostInjector.get(RootOnlyService, null)).toBeNull();
+      expect(TestBed.inject(RootOnlyService)).toBeTruthy();
+    });
+
+    it('should never resolve the plugin system services', async () => {
+      setup();
+      manager.register({
+        name: 'open',
+        loadFn: async () => ({ PluginManifest: { name: 'open', version: '1.0.0', entryComponent: MockPluginComponent } })
+      });
+      await manager.load('open');
+      const context = registry.getContext('open')!;
+
+      for (const service of [PluginManager, PluginRegistry, RemotePluginLoader, PluginAuditLog, PluginEventBus]) {
+        expect(context.hostInjector.get(service as Type<unknown>, null)).toBeNull();
+        expect(context.getService(service as Type<unknown>)).toBeNull();
+      }
+    });
+
+    it('should leave the host injector unfiltered when no services are restricted', async () => {
+      setup();
+      manager.register({
+        name: 'open',
+        loadFn: async () => ({ PluginManifest: { name: 'open', version: '1.0.0', entryComponent: MockPluginComponent } })
+      });
+      await manager.load('open');
+
+      expect(registry.getContext('open')!.hostInjector.get(AUTH_SERVICE).token).toBe('secret');
+    });
+  });
+
+  describe('v1.5.0 Plugin Consent', () => {
+    const STORAGE_SERVICE = new InjectionToken<{ read: () => string }>('STORAGE_SERVICE');
+    let consentStorage: MemoryPluginConsentStorage;
+    let activated: boolean;
+
+    class ConsentPluginComponent implements PluginLifecycle {
+      async onActivate() {
+        activated = true;
+      }
+    }
+
+    const createViewContainer = () => {
+      const viewContainer = jasmine.createSpyObj('ViewContainerRef', ['createComponent']);
+      viewContainer.createComponent.and.callFake(() => ({
+        instance: new ConsentPluginComponent(),
+        destroy: jasmine.createSpy('destroy'),
+        onDestroy: () => undefined
+      }));
+      return viewContainer;
+    };
+
+    const setup = (handler?: PluginConsentHandler) => {
+      consentStorage = new MemoryPluginConsentStorage();
+      activated = false;
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          PluginManager,
+          PluginRegistry,
+          { provide: STORAGE_SERVICE, useValue: { read: () => 'stored' } },
+          ...(handler ? [{ provide: PLUGIN_CONSENT_HANDLER, useValue: handler }] : []),
+          {
+            provide: PLUGIN_SYSTEM_CONFIG,
+            useValue: {
+              permissionPolicy: {
+                grants: { '*': ['storage', 'http:read'] },
+                sensitive: ['storage'],
+                services: [{ token: STORAGE_SERVICE, capability: 'storage' }],
+                consentStorage
+              }
+            }
+          }
+        ]
+      });
+      manager = TestBed.inject(PluginManager);
+      registry = TestBed.inject(PluginRegistry);
+
+      manager.register({
+        name: 'notes',
+        loadFn: async () => ({
+          PluginManifest: {
+            name: 'notes',
+            version: '1.0.0',
+            entryComponent: ConsentPluginComponent,
+            permissions: ['storage', 'http:read']
+          }
+        })
+      });
+    };
+
+    it('should ask for consent before the first activation and remember the decision', async () => {
+      const handler = { requestConsent: jasmine.createSpy('requestConsent').and.callFake(async () => {
+        expect(activated).toBeFalse();
+        return true;
+      }) };
+      setup(handler);
+
+      await manager.load('notes');
+      expect(manager.getPluginInfo('notes')!.pendingConsent).toEqual(['storage']);
+      expect(manager.hasPermission('notes', 'storage')).toBeFalse();
+
+      await manager.createPluginComponent('notes', createViewContainer());
+
+      expect(handler.requestConsent).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({ pluginName: 'notes', capability: 'storage' })
+      );
+      expect(activated).toBeTrue();
+      expect(registry.getContext('notes')!.getService(STORAGE_SERVICE)!.read()).toBe('stored');
+      expect(manager.getPluginInfo('notes')!.pendingConsent).toEqual([]);
+      expect(await consentStorage.get('notes', 'storage')).toEqual(jasmine.objectContaining({ granted: true }));
+    });
+
+    it('should record granted consent in the metadata and the audit log', async () => {
+      setup({ requestConsent: async () => true });
+      const record = spyOn(TestBed.inject(PluginAuditLog), 'record');
+      await manager.load('notes');
+      const loadedPermissions = manager.getPluginInfo('notes')!.grantedPermissions;
+
+      await manager.createPluginComponent('notes', createViewContainer());
+
+      expect(manager.getPluginInfo('notes')!.grantedPermissions).toEqual(['http:read', 'storage']);
+      expect(manager.getPluginInfo('notes')!.grantedPermissions).not.toBe(loadedPermissions);
+      expect(loadedPermissions).toEqual(['http:read']);
+      expect(manager.hasPermission('notes', 'storage')).toBeTrue();
+      expect(record).toHaveBeenCalledWith({ type: 'permission', pluginName: 'notes', capability: 'storage', granted: true, source: 'consent' });
+    });
+
+    it('should not ask again once a decision is stored', async () => {
+      const handler = { requestConsent: jasmine.createSpy('requestConsent') };
+      setup(handler);
+      await consentStorage.set({ pluginName: 'notes', capability: 'storage', granted: true, decidedAt: 0 });
+
+      await manager.load('notes');
+      await manager.createPluginComponent('notes', createViewContainer());
+
+      expect(handler.requestConsent).not.toHaveBeenCalled();
+      expect(manager.hasPermission('notes', 'storage')).toBeTrue();
+    });
+
+    it('should move the plugin to ERROR when consent is denied', async () => {
+      setup({ requestConsent: async () => false });
+      await manager.load('notes');
+      const viewContainer = createViewContainer();
+
+      await expectAsync(manager.createPluginComponent('notes', viewContainer)).toBeRejectedWithError(
+        PluginConsentError,
+        /Consent for capability 'storage' was denied/
+      );
+
+      expect(viewContainer.createComponent).not.toHaveBeenCalled();
+      expect(activated).toBeFalse();
+      expect(manager.getPluginState('notes')).toBe(PluginState.ERROR);
+      expect(manager.getPluginInfo('notes')!.lastError).toEqual(jasmine.any(PluginConsentError));
+    });
+
+    it('should deny sensitive capabilities when no consent handler is provided', async () => {
+      setup();
+      await manager.load('notes');
+
+      const error = await manager.createPluginComponent('notes', createViewContainer()).catch(e => e);
+
+      expect(error).toEqual(jasmine.any(PluginConsentError));
+      expect(error.noHandler).toBeTrue();
+      expect(await consentStorage.get('notes', 'storage')).toBeUndefined();
+    });
+
+    it('should keep the plugin from being unregistered or reloaded while the prompt is open', async () => {
+      let answer!: (granted: boolean) => void;
+      setup({ requestConsent: () => new Promise<boolean>(resolve => (answer = resolve)) });
+      await manager.load('notes');
+
+      const creation = manager.createPluginComponent('notes', createViewContainer());
+      await new Promise(resolve => setTimeout(resolve));
+
+      await expectAsync(manager.unregister('notes')).toBeRejectedWithError(PluginOperationInProgressError);
+      await expectAsync(manager.reload('notes')).toBeRejectedWithError(PluginOperationInProgressError);
+
+      answer(true);
+      await creation;
+
+      expect(activated).toBeTrue();
+      expect(manager.getPluginState('notes')).toBe(PluginState.ACTIVE);
+    });
+
+    it('should prompt once for concurrently created instances', async () => {
+      const handler = { requestConsent: jasmine.createSpy('requestConsent').and.resolveTo(true) };
+      setup(handler);
+      await manager.load('notes');
+
+      await Promise.all([
+        manager.createPluginComponent('notes', createViewContainer()),
+        manager.createPluginComponent('notes', createViewContainer())
+      ]);
+
+      expect(handler.requestConsent).toHaveBeenCalledTimes(1);
+      expect(manager.getPluginInstances('notes').length).toBe(2);
+    });
+  });
 });
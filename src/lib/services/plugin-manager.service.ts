@@ -1,30 +1,67 @@
-import { Injectable, Injector, Inject, Optional, ComponentRef, ViewContainerRef, EnvironmentInjector, createNgModule, NgModuleRef } from '@angular/core';
+import { Injectable, Injector, Inject, Optional, ComponentRef, ViewContainerRef, EnvironmentInjector, createNgModule, NgModuleRef, InjectionToken, Type } from '@angular/core';
 import { Observable, filter } from 'rxjs';
 import {
   PluginMetadata,
   PluginState,
   PluginStateEvent,
-  LoadedPluginModule
+  LoadedPluginModule,
+  PluginManifest,
+  PluginComponentInstance
 } from '../types/plugin.types';
 import {
   PluginRegistration,
   PluginSystemConfig,
-  PLUGIN_SYSTEM_CONFIG
+  PluginUnregisterOptions,
+  PLUGIN_SYSTEM_CONFIG,
+  PLUGIN_CONSENT_HANDLER
 } from '../types/registration.types';
 import {
+  PluginError,
   PluginLoadError,
   PluginNotFoundError,
   PluginStateError,
   PluginLifecycleError,
   PluginLifecycleTimeoutError,
-  PluginOperationInProgressError
+  PluginOperationInProgressError,
+  PluginDependencyError,
+  PluginCatalogError,
+  PluginUpgradeError,
+  PluginConsentError
 } from '../types/errors.types';
-import { RemotePluginConfig } from '../types/remote-plugin.types';
+import {
+  RemotePluginConfig,
+  PluginCatalog,
+  PluginCatalogDiff,
+  PluginCatalogEntry,
+  PluginCatalogOptions,
+  RemotePluginRegisterOptions,
+  RemotePluginLoadResult,
+  PluginUpdateInfo
+} from '../types/remote-plugin.types';
 import { PluginRegistry } from './plugin-registry.service';
 import { RemotePluginLoader } from './remote-plugin-loader.service';
+import { PluginEventBus } from './plugin-event-bus.service';
+import { PluginAuditLog } from './plugin-audit-log.service';
 import { PluginContextImpl } from '../utils/plugin-context.impl';
 import { createPluginInjector } from '../utils/plugin-injector.factory';
+import { findDependencyCycle } from '../utils/dependency-graph.util';
+import { satisfiesVersionRange, parseVersion, compareVersions } from '../utils/semver.util';
+import { parsePluginCatalog } from '../utils/plugin-catalog.util';
 import { PluginLifecycle } from '../types/lifecycle.types';
+import { createSandboxedPluginModule } from '../components/plugin-sandbox.component';
+import { PluginWorkerHost } from '../utils/plugin-worker.util';
+import { WorkerPluginRegistration, PluginWorkerApi } from '../types/worker.types';
+import { PluginContextPermissions } from '../types/context.types';
+import { hasCapability } from '../utils/plugin-permissions.util';
+import { PluginConsentHandler, PluginConsentStorage } from '../types/permission.types';
+import { createDefaultPluginConsentStorage } from '../utils/plugin-consent-storage';
+
+// v1.5.0: Where a live instance was rendered and the state it handed over before a reload
+interface ReloadSnapshot {
+  viewContainer?: ViewContainerRef;
+  index: number;
+  state: unknown;
+}
 
 @Injectable({ providedIn: 'root' })
 export class PluginManager {
@@ -33,6 +70,16 @@ export class PluginManager {
 
   private readonly loadingPromises = new Map<string, Promise<PluginMetadata>>();
   private readonly unloadingPromises = new Map<string, Promise<void>>(); // v1.1.0: Fix #4
+  private readonly pendingComponentCreations = new Map<string, number>(); // v1.5.0
+  private readonly deactivatingPromises = new Map<string, Promise<void>>(); // v1.5.0
+  private readonly deactivatedContainers = new Map<string, ViewContainerRef[]>(); // v1.5.0
+  private readonly remoteConfigs = new Map<string, RemotePluginConfig>(); // v1.5.0: For reload()
+  private readonly catalogs = new Map<string, Map<string, PluginCatalogEntry>>(); // v1.5.0: By catalog id
+  private readonly catalogUrls = new Map<string, string>(); // v1.5.0: Catalog id → URL, for checkForUpdates()
+  private readonly consentPromises = new Map<string, Promise<void>>(); // v1.5.0: One consent prompt per plugin at a time
+  private readonly workerPlugins = new Set<string>(); // v1.5.0: PluginWorkerHost.start() applies their load timeout
+  private consentStorage?: PluginConsentStorage; // v1.5.0: Created on first use
+  private instanceCounter = 0;
 
   readonly pluginState$: Observable<PluginStateEvent>;
 
@@ -40,7 +87,10 @@ export class PluginManager {
     private readonly registry: PluginRegistry,
     private readonly injector: Injector,
     private readonly remoteLoader: RemotePluginLoader,
-    @Optional() @Inject(PLUGIN_SYSTEM_CONFIG) private readonly config?: PluginSystemConfig
+    private readonly eventBus: PluginEventBus,
+    private readonly auditLog: PluginAuditLog,
+    @Optional() @Inject(PLUGIN_SYSTEM_CONFIG) private readonly config?: PluginSystemConfig,
+    @Optional() @Inject(PLUGIN_CONSENT_HANDLER) private readonly consentHandler?: PluginConsentHandler
   ) {
     // Log version on init for debugging
     console.log(`[PluginSystem] Initialized - Version: ${PluginManager.VERSION}`);
@@ -102,14 +152,14 @@ export class PluginManager {
     return results;
   }
 
-  async unregister(pluginName: string): Promise<void> {
+  async unregister(pluginName: string, options: PluginUnregisterOptions = {}): Promise<void> {
     // v1.1.0: Fix #4 - Prevent concurrent unload operations
     const existingUnloadPromise = this.unloadingPromises.get(pluginName);
     if (existingUnloadPromise) {
       return existingUnloadPromise;
     }
 
-    const unloadPromise = this.executeUnregister(pluginName);
+    const unloadPromise = this.executeUnregister(pluginName, options);
     this.unloadingPromises.set(pluginName, unloadPromise);
 
     try {
@@ -124,7 +174,162 @@ export class PluginManager {
     return this.unloadingPromises.has(pluginName);
   }
 
-  private async executeUnregister(pluginName: string): Promise<void> {
+  /**
+   * v1.5.0: Take an ACTIVE plugin out of the view without unregistering it
+   * Runs onDeactivate, destroys every component instance and returns the plugin to LOADED.
+   * The injector, context and loaded module are kept so activate() can render it again.
+   */
+  async deactivate(pluginName: string): Promise<void> {
+    const existingPromise = this.deactivatingPromises.get(pluginName);
+    if (existingPromise) {
+      return existingPromise;
+    }
+
+    const deactivatePromise = this.executeDeactivate(pluginName);
+    this.deactivatingPromises.set(pluginName, deactivatePromise);
+
+    try {
+      await deactivatePromise;
+    } finally {
+      this.deactivatingPromises.delete(pluginName);
+    }
+  }
+
+  /**
+   * v1.5.0: Render a LOADED plugin again
+   * Without a view container, the plugin is re-created where it was last deactivated
+   * @returns The created component references
+   */
+  async activate(
+    pluginName: string,
+    viewContainer?: ViewContainerRef
+  ): Promise<ComponentRef<PluginLifecycle>[]> {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
+      throw new PluginNotFoundError(pluginName);
+    }
+
+    if (this.deactivatingPromises.has(pluginName)) {
+      throw new PluginOperationInProgressError(pluginName, 'deactivating');
+    }
+
+    const viewContainers = viewContainer
+      ? [viewContainer]
+      : this.deactivatedContainers.get(pluginName) || [];
+
+    if (viewContainers.length === 0) {
+      throw new PluginError(
+        `Plugin ${pluginName} has no view container to activate in`,
+        pluginName,
+        undefined,
+        {
+          suggestion: 'Pass a ViewContainerRef to activate(), or call deactivate() first so the plugin remembers where it was rendered.'
+        }
+      );
+    }
+
+    const componentRefs: ComponentRef<PluginLifecycle>[] = [];
+    for (const container of viewContainers) {
+      componentRefs.push(await this.createPluginComponent(pluginName, container));
+    }
+
+    this.deactivatedContainers.delete(pluginName);
+    return componentRefs;
+  }
+
+  private async executeDeactivate(pluginName: string): Promise<void> {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
+      throw new PluginNotFoundError(pluginName);
+    }
+
+    if (metadata.state === PluginState.LOADED) {
+      return;
+    }
+
+    if (metadata.state !== PluginState.ACTIVE) {
+      throw new PluginStateError(pluginName, 'ACTIVE', metadata.state);
+    }
+
+    if (this.isUnloading(pluginName)) {
+      throw new PluginOperationInProgressError(pluginName, 'unloading');
+    }
+
+    if (metadata.isCreatingComponent) {
+      throw new PluginOperationInProgressError(pluginName, 'creating');
+    }
+
+    this.debugLog(`Deactivating plugin '${pluginName}'`);
+
+    const instances = metadata.instances || [];
+    this.deactivatedContainers.set(
+      pluginName,
+      instances
+        .map(instance => instance.viewContainer)
+        .filter((container): container is ViewContainerRef => !!container)
+    );
+
+    try {
+      for (const instance of instances) {
+        await this.destroyPluginComponent(pluginName, instance.instanceId);
+      }
+
+      // A componentRef set directly on the metadata is not tracked as an instance
+      const remaining = this.registry.getMetadata(pluginName)!;
+      if (remaining.componentRef) {
+        await this.destroyComponent(remaining.componentRef, pluginName);
+      }
+
+      if (remaining.state === PluginState.ACTIVE) {
+        this.logStateTransition(pluginName, PluginState.ACTIVE, PluginState.LOADED);
+      }
+
+      this.registry.updateMetadata(pluginName, {
+        componentRef: undefined,
+        instances: [],
+        ...(remaining.state === PluginState.ACTIVE ? { state: PluginState.LOADED } : {})
+      });
+    } catch (error) {
+      this.handleError(pluginName, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * v1.5.0: Names of plugins declared in the plugin's manifest dependencies
+   */
+  getDependencies(pluginName: string): string[] {
+    return this.registry.getDependencies(pluginName);
+  }
+
+  /**
+   * v1.5.0: Names of registered plugins whose manifest depends on the plugin
+   */
+  getDependents(pluginName: string): string[] {
+    return this.registry.getDependents(pluginName);
+  }
+
+  /**
+   * v1.5.0: Whether the permission policy granted the plugin a capability
+   * Always false before the plugin has loaded or when no permissionPolicy is configured
+   */
+  hasPermission(pluginName: string, capability: string): boolean {
+    const granted = this.registry.getMetadata(pluginName)?.grantedPermissions;
+    return !!granted && hasCapability(granted, capability);
+  }
+
+  /**
+   * v1.5.0: Forget stored consent decisions for a plugin, or for all plugins
+   * The user is asked again the next time the plugin loads and activates
+   */
+  async clearConsent(pluginName?: string): Promise<void> {
+    await this.getConsentStorage().clear(pluginName);
+  }
+
+  private async executeUnregister(
+    pluginName: string,
+    options: PluginUnregisterOptions
+  ): Promise<void> {
     const entry = this.registry.get(pluginName);
     if (!entry) {
       throw new PluginNotFoundError(pluginName);
@@ -141,6 +346,25 @@ export class PluginManager {
       throw new PluginOperationInProgressError(pluginName, 'creating');
     }
 
+    // v1.5.0: Refuse to remove a plugin that loaded dependents still rely on
+    const dependents = this.registry.getDependents(pluginName);
+    const blockingDependents = dependents.filter(name =>
+      this.isReady(name) || this.getPluginState(name) === PluginState.LOADING
+    );
+
+    if (blockingDependents.length > 0 && !options.cascade) {
+      throw new PluginDependencyError(pluginName, blockingDependents[0], 'HAS_DEPENDENTS', {
+        dependents: blockingDependents
+      });
+    }
+
+    // Cascade to dependents and wait for those that are already unloading
+    await Promise.all(
+      dependents
+        .filter(name => blockingDependents.includes(name) || this.isUnloading(name))
+        .map(name => this.unregister(name, options))
+    );
+
     try {
       // v1.1.0: Enhancement #2 - Debug logging
       this.logStateTransition(pluginName, metadata.state, PluginState.UNLOADING);
@@ -149,15 +373,22 @@ export class PluginManager {
 
       await this.callLifecycleHook(pluginName, 'beforeUnload');
 
-      if (metadata.componentRef) {
+      // v1.5.0: Tear down every live component instance
+      const componentRefs = this.getLiveComponentRefs(metadata);
+      if (componentRefs.length > 0) {
         // v1.1.0: Enhancement #2 - Debug logging
-        this.debugLog(`Destroying component for plugin '${pluginName}'`);
+        this.debugLog(`Destroying ${componentRefs.length} component(s) for plugin '${pluginName}'`);
 
-        await this.destroyComponent(metadata.componentRef, pluginName);
+        for (const componentRef of componentRefs) {
+          await this.destroyComponent(componentRef, pluginName);
+        }
         // v1.1.0: Fix #2 - Clear componentRef to prevent memory leak
-        this.registry.updateMetadata(pluginName, { componentRef: undefined });
+        this.registry.updateMetadata(pluginName, { componentRef: undefined, instances: [] });
       }
 
+      // v1.5.0: Run the worker's onDestroy, then terminate it
+      await this.stopWorker(pluginName, metadata.moduleReference);
+
       // v1.4.0: Destroy NgModule reference if exists
       if (metadata.moduleReference && typeof metadata.moduleReference.destroy === 'function') {
         this.debugLog(`Destroying NgModule for plugin '${pluginName}'`);
@@ -185,6 +416,7 @@ export class PluginManager {
         moduleReference: null,
         injectorReference: null,
         componentRef: null,
+        instances: [],
         error: undefined
       });
 
@@ -204,6 +436,9 @@ export class PluginManager {
       this.debugLog(`Plugin '${pluginName}' unregistered successfully`);
 
       this.registry.unregister(pluginName);
+      this.deactivatedContainers.delete(pluginName);
+      this.remoteConfigs.delete(pluginName);
+      this.workerPlugins.delete(pluginName);
     } catch (error) {
       this.handleError(pluginName, error as Error);
       throw error;
@@ -214,6 +449,20 @@ export class PluginManager {
     return this.registry.getMetadata(pluginName)?.state;
   }
 
+  /**
+   * v1.5.0: States the plugin may move to next (e.g. to enable/disable admin UI actions)
+   */
+  getAllowedTransitions(pluginName: string): PluginState[] {
+    return this.registry.getAllowedTransitions(pluginName);
+  }
+
+  /**
+   * v1.5.0: Whether the plugin may move from its current state to `state`
+   */
+  canTransition(pluginName: string, state: PluginState): boolean {
+    return this.registry.has(pluginName) && this.getAllowedTransitions(pluginName).includes(state);
+  }
+
   isReady(pluginName: string): boolean {
     const state = this.getPluginState(pluginName);
     return state === PluginState.LOADED || state === PluginState.ACTIVE;
@@ -234,10 +483,21 @@ export class PluginManager {
   /**
    * v1.2.0: Register and load a plugin from a remote URL
    * This enables true dynamic plugin loading from external sources
+   * v1.5.0: With `{ lazy: true }` the plugin stays REGISTERED until load() fetches it
    */
-  async registerRemotePlugin(config: RemotePluginConfig): Promise<PluginMetadata> {
+  async registerRemotePlugin(
+    config: RemotePluginConfig,
+    options: RemotePluginRegisterOptions = {}
+  ): Promise<PluginMetadata> {
+    // v1.5.0: Lazy mode defers the fetch to load()
+    if (options.lazy) {
+      this.registerLazyRemotePlugin(config);
+      return this.registry.getMetadata(config.name)!;
+    }
+
     // Use RemotePluginLoader to fetch the remote module
-    const result = await this.remoteLoader.loadRemotePlugin(config);
+    const result = await this.fetchRemoteModule(config);
+    this.remoteConfigs.set(config.name, config);
 
     // Register the plugin with the fetched module
     this.register({
@@ -247,15 +507,10 @@ export class PluginManager {
         return result.module;
       },
       config: {
-        metadata: {
-          ...config.metadata,
-          remote: true,
-          remoteUrl: config.remoteUrl,
-          loadTime: result.loadTime,
-          fromCache: result.fromCache
-        }
+        metadata: config.metadata
       }
     });
+    this.setRemoteInfo(config, false, result);
 
     // Load the plugin immediately
     return this.load(config.name);
@@ -265,20 +520,11 @@ export class PluginManager {
    * v1.2.0: Unregister a remote plugin and clean up remote resources
    */
   async unregisterRemotePlugin(pluginName: string): Promise<void> {
-    // Get plugin metadata to find the remote URL
-    const metadata = this.registry.getMetadata(pluginName);
-    const remoteUrl = metadata?.componentRef ? (metadata as any).remoteUrl : null;
-
     // Unregister the plugin normally
     await this.unregister(pluginName);
 
-    // Clean up remote loader cache
-    if (remoteUrl) {
-      this.remoteLoader.unloadRemotePlugin(remoteUrl);
-    } else {
-      // Try by plugin name
-      this.remoteLoader.unloadRemotePlugin(pluginName);
-    }
+    // v1.5.0: Release the plugin's bundle; it stays cached while other plugins share it
+    this.remoteLoader.unloadRemotePlugin(pluginName);
   }
 
   /**
@@ -295,6 +541,278 @@ export class PluginManager {
     this.remoteLoader.clearCache();
   }
 
+  /**
+   * v1.5.0: Register the remote plugins listed in a catalog (URL of a JSON file or a catalog object)
+   * Entries are registered without fetching their scripts; they load on load() or autoLoad.
+   * Calling again with the same catalog applies the differences: new entries are registered,
+   * changed entries are replaced (hot reloaded if already loaded) and missing entries are unregistered.
+   */
+  async registerCatalog(
+    source: string | PluginCatalog,
+    options: PluginCatalogOptions = {}
+  ): Promise<PluginCatalogDiff> {
+    const catalogId = options.id ?? (typeof source === 'string' ? source : 'default');
+    const raw = typeof source === 'string' ? await this.fetchCatalog(source) : source;
+    const entries = parsePluginCatalog(raw, catalogId, typeof source === 'string' ? source : undefined);
+
+    const previous = this.catalogs.get(catalogId) || new Map<string, PluginCatalogEntry>();
+    const conflicts = entries
+      .filter(entry => !previous.has(entry.name) && this.registry.has(entry.name))
+      .map(entry => `plugin '${entry.name}' is already registered outside this catalog`);
+
+    if (conflicts.length > 0) {
+      throw new PluginCatalogError(catalogId, conflicts);
+    }
+
+    const next = new Map(entries.map(entry => [entry.name, entry]));
+    const diff: PluginCatalogDiff = { added: [], updated: [], removed: [], unchanged: [] };
+
+    for (const [name, entry] of previous) {
+      if (!next.has(name)) {
+        await this.removeCatalogPlugin(entry);
+        diff.removed.push(name);
+      }
+    }
+
+    for (const entry of entries) {
+      const before = previous.get(entry.name);
+
+      if (!before || !this.registry.has(entry.name)) {
+        this.registerLazyRemotePlugin(entry, entry.autoLoad);
+        diff.added.push(entry.name);
+      } else if (JSON.stringify(before) === JSON.stringify(entry)) {
+        diff.unchanged.push(entry.name);
+      } else {
+        await this.updateCatalogPlugin(before, entry);
+        diff.updated.push(entry.name);
+      }
+    }
+
+    this.catalogs.set(catalogId, next);
+    if (typeof source === 'string') {
+      this.catalogUrls.set(catalogId, source);
+    }
+    this.debugLog(`Catalog '${catalogId}' applied`, diff);
+
+    return diff;
+  }
+
+  /**
+   * v1.5.0: Compare the versions listed in registered catalogs with the registered plugins
+   * Catalogs registered from a URL are fetched again; nothing is applied. Pass an update's
+   * `config` to upgrade() to install it.
+   */
+  async checkForUpdates(catalogId?: string): Promise<PluginUpdateInfo[]> {
+    const catalogIds = catalogId !== undefined ? [catalogId] : Array.from(this.catalogs.keys());
+    const updates: PluginUpdateInfo[] = [];
+
+    for (const id of catalogIds) {
+      const known = this.catalogs.get(id);
+      if (!known) {
+        throw new PluginCatalogError(id, ['is not registered']);
+      }
+
+      const url = this.catalogUrls.get(id);
+      const entries = url ? parsePluginCatalog(await this.fetchCatalog(url), id, url) : Array.from(known.values());
+
+      for (const entry of entries) {
+        const currentVersion = known.has(entry.name) ? this.getPluginVersion(entry.name) : undefined;
+
+        if (
+          currentVersion &&
+          entry.version &&
+          parseVersion(currentVersion) &&
+          parseVersion(entry.version) &&
+          compareVersions(entry.version, currentVersion) > 0
+        ) {
+          updates.push({
+            name: entry.name,
+            catalogId: id,
+            currentVersion,
+            availableVersion: entry.version,
+            config: entry
+          });
+        }
+      }
+    }
+
+    return updates;
+  }
+
+  // Loaded plugins report their manifest version; plugins not loaded yet the version they were registered with
+  private getPluginVersion(pluginName: string): string | undefined {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
+      return undefined;
+    }
+
+    return this.isReady(pluginName) ? metadata.manifest.version : metadata.remote?.version;
+  }
+
+  private async fetchCatalog(url: string): Promise<unknown> {
+    try {
+      const response = await fetch(url, { credentials: 'omit' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      throw new PluginCatalogError(url, [`could not be fetched: ${(error as Error).message}`], error as Error);
+    }
+  }
+
+  private async updateCatalogPlugin(previous: PluginCatalogEntry, entry: PluginCatalogEntry): Promise<void> {
+    if (this.isReady(entry.name)) {
+      this.remoteLoader.unloadRemotePlugin(entry.name);
+      this.remoteConfigs.set(entry.name, entry);
+      await this.reload(entry.name);
+      return;
+    }
+
+    await this.removeCatalogPlugin(previous);
+    this.registerLazyRemotePlugin(entry, entry.autoLoad);
+  }
+
+  private async removeCatalogPlugin(entry: PluginCatalogEntry): Promise<void> {
+    if (this.registry.has(entry.name)) {
+      await this.unregister(entry.name);
+    }
+    this.remoteLoader.unloadRemotePlugin(entry.name);
+  }
+
+  // v1.5.0: Register a remote plugin whose script is fetched by its loadFn
+  private registerLazyRemotePlugin(config: RemotePluginConfig, autoLoad = false): void {
+    this.register({
+      name: config.name,
+      // Read the config at load time so reload() picks up a swapped remote config
+      loadFn: async () => {
+        const currentConfig = this.remoteConfigs.get(config.name) ?? config;
+        const result = await this.fetchRemoteModule(currentConfig);
+        this.setRemoteInfo(currentConfig, true, result);
+        return result.module;
+      },
+      config: {
+        autoLoad,
+        metadata: config.metadata
+      }
+    });
+
+    this.remoteConfigs.set(config.name, config);
+    this.setRemoteInfo(config, true);
+  }
+
+  // v1.5.0: Sandboxed plugins are not fetched by the host; their bundle only runs inside the iframe
+  private async fetchRemoteModule(
+    config: RemotePluginConfig,
+    options?: { bypassCache?: boolean }
+  ): Promise<RemotePluginLoadResult> {
+    if (config.sandbox) {
+      // v1.5.0: The iframe loads remoteUrl itself, so check it here
+      this.remoteLoader.assertAllowedOrigin(config);
+      const module = createSandboxedPluginModule(config, () => this.remoteLoader.getScriptNonce());
+      return { module, loadTime: 0, fromCache: false };
+    }
+
+    return options ? this.remoteLoader.loadRemotePlugin(config, options) : this.remoteLoader.loadRemotePlugin(config);
+  }
+
+  private setRemoteInfo(config: RemotePluginConfig, lazy: boolean, result?: RemotePluginLoadResult): void {
+    if (!this.registry.has(config.name)) {
+      return;
+    }
+
+    this.registry.updateMetadata(config.name, {
+      remote: {
+        url: config.remoteUrl,
+        exposedModule: config.exposedModule,
+        format: config.format || 'global',
+        version: config.version,
+        lazy,
+        loadTime: result?.loadTime,
+        fromCache: result?.fromCache
+      }
+    });
+  }
+
+  /**
+   * v1.5.0: Register a headless plugin that runs in a Web Worker
+   * Loading starts the worker and waits for it to call exposePluginWorker(); the plugin then
+   * stays LOADED and is used through getWorkerApi(). Unregistering runs the worker's onDestroy
+   * and terminates it. If the worker crashes, the plugin moves to ERROR.
+   */
+  registerWorkerPlugin(registration: WorkerPluginRegistration): void {
+    this.register({
+      name: registration.name,
+      loadFn: () => this.startWorkerPlugin(registration),
+      config: registration.config
+    });
+    this.workerPlugins.add(registration.name);
+  }
+
+  /**
+   * v1.5.0: Proxy of a LOADED worker plugin's api; every call returns a Promise
+   */
+  getWorkerApi<TApi extends object = Record<string, (...args: any[]) => unknown>>(
+    pluginName: string
+  ): PluginWorkerApi<TApi> {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
+      throw new PluginNotFoundError(pluginName);
+    }
+
+    if (!this.isReady(pluginName)) {
+      throw new PluginStateError(pluginName, 'LOADED', metadata.state);
+    }
+
+    const worker = (metadata.moduleReference as LoadedPluginModule | null | undefined)?.worker;
+    if (!worker) {
+      throw new PluginError(`Plugin ${pluginName} is not a worker plugin`, pluginName, undefined, {
+        suggestion: 'Register headless plugins with registerWorkerPlugin().'
+      });
+    }
+
+    return worker.api as PluginWorkerApi<TApi>;
+  }
+
+  private async startWorkerPlugin(registration: WorkerPluginRegistration): Promise<LoadedPluginModule> {
+    const { name } = registration;
+    const worker = new PluginWorkerHost(
+      name,
+      typeof registration.worker === 'function'
+        ? registration.worker()
+        : new Worker(registration.worker, { type: registration.type ?? 'module', name }),
+      error => this.handleError(name, error)
+    );
+
+    try {
+      const { version } = await worker.start(registration.config?.timeout || this.config?.globalTimeout || 30000);
+
+      return {
+        PluginManifest: { name, version: version || registration.version || '0.0.0', headless: true },
+        worker
+      };
+    } catch (error) {
+      worker.terminate();
+      throw error;
+    }
+  }
+
+  // v1.5.0: Give a worker plugin its onDestroy, then terminate the worker even if the hook fails or hangs
+  private async stopWorker(pluginName: string, module?: LoadedPluginModule | null): Promise<void> {
+    const worker = module?.worker;
+    if (!worker) {
+      return;
+    }
+
+    try {
+      await this.callPluginLifecycleHookWithTimeout(worker.onDestroy(), pluginName, 'onDestroy');
+    } catch (error) {
+      this.debugLog(`Warning: onDestroy failed for worker plugin '${pluginName}': ${error}`);
+    } finally {
+      worker.terminate();
+    }
+  }
+
   /**
    * v1.2.0: Helper - Load and activate a plugin in one call
    * Combines load() + createPluginComponent() for convenience
@@ -332,15 +850,22 @@ export class PluginManager {
       throw new PluginNotFoundError(pluginName);
     }
 
-    // v1.1.0: Fix #3 - Prevent concurrent component creation
-    if (metadata.isCreatingComponent) {
-      throw new PluginOperationInProgressError(pluginName, 'creating');
-    }
-
     if (!this.isReady(pluginName)) {
       throw new PluginStateError(pluginName, 'LOADED or ACTIVE', metadata.state);
     }
 
+    const entryComponent = metadata.manifest.entryComponent;
+    if (!entryComponent) {
+      throw new PluginError(
+        `Plugin ${pluginName} is headless and has no component to render`,
+        pluginName,
+        undefined,
+        {
+          suggestion: 'Call the plugin through getWorkerApi() instead of rendering it.'
+        }
+      );
+    }
+
     const injector = this.registry.getInjector(pluginName);
     if (!injector) {
       throw new PluginLoadError(pluginName);
@@ -351,19 +876,24 @@ export class PluginManager {
       throw new PluginLoadError(pluginName);
     }
 
+    // v1.1.0: Fix #3 - Set flag to prevent unload during creation
+    // v1.5.0: Several instances may be created concurrently, so the flag is reference-counted
+    this.trackComponentCreation(pluginName, 1);
+
+    // v1.5.0: Sensitive capabilities need the user's consent before the plugin first activates
+    // The prompt runs inside the creation window, so the plugin cannot be unloaded or swapped meanwhile
     try {
-      // v1.1.0: Fix #3 - Set flag to prevent concurrent operations
-      this.registry.updateMetadata(pluginName, { isCreatingComponent: true });
+      await this.ensureConsent(pluginName);
+    } catch (error) {
+      this.trackComponentCreation(pluginName, -1);
+      throw error;
+    }
+    let isCreating = true;
 
+    try {
       // v1.1.0: Enhancement #2 - Debug logging
       this.debugLog(`Creating component for plugin '${pluginName}'`);
 
-      // v1.1.0: Fix #2 - Check for existing componentRef and destroy it first
-      if (metadata.componentRef) {
-        await this.destroyComponent(metadata.componentRef, pluginName);
-        this.registry.updateMetadata(pluginName, { componentRef: undefined });
-      }
-
       // v1.4.0: Support for NgModule loading
       let componentInjector = injector;
 
@@ -382,9 +912,10 @@ export class PluginManager {
         }
       }
 
+      // v1.5.0: The environment injector is the plugin's too, so DI never falls back to the unfiltered host
       const componentRef = viewContainer.createComponent(
-        metadata.manifest.entryComponent,
-        { injector: componentInjector }
+        entryComponent,
+        { injector: componentInjector, environmentInjector: componentInjector }
       );
 
       // v1.4.0: For NgModule plugins, call onLoad here since it was skipped during load phase
@@ -399,15 +930,37 @@ export class PluginManager {
         this.debugLog(`onLoad() completed in ${Date.now() - hookStartTime}ms for plugin '${pluginName}'`);
       }
 
-      // v1.1.0: Enhancement #3 - Track activation time
-      this.logStateTransition(pluginName, metadata.state, PluginState.ACTIVE);
-
-      this.registry.updateMetadata(pluginName, {
+      // v1.5.0: Track the new instance alongside existing ones
+      const instance: PluginComponentInstance = {
+        instanceId: `${pluginName}#${++this.instanceCounter}`,
         componentRef,
-        state: PluginState.ACTIVE,
-        activatedAt: new Date(), // v1.1.0: Enhancement #3
-        isCreatingComponent: false
-      });
+        viewContainer,
+        createdAt: new Date()
+      };
+      const currentMetadata = this.registry.getMetadata(pluginName)!;
+      const instances = [...(currentMetadata.instances || []), instance];
+
+      // Forget instances destroyed outside the manager (e.g. view container cleared)
+      if (typeof componentRef.onDestroy === 'function') {
+        componentRef.onDestroy(() => this.forgetInstance(pluginName, instance.instanceId));
+      }
+
+      this.trackComponentCreation(pluginName, -1);
+      isCreating = false;
+
+      if (currentMetadata.state === PluginState.ACTIVE) {
+        this.registry.updateMetadata(pluginName, { componentRef, instances });
+      } else {
+        // v1.1.0: Enhancement #3 - Track activation time
+        this.logStateTransition(pluginName, currentMetadata.state, PluginState.ACTIVE);
+
+        this.registry.updateMetadata(pluginName, {
+          componentRef,
+          instances,
+          state: PluginState.ACTIVE,
+          activatedAt: new Date() // v1.1.0: Enhancement #3
+        });
+      }
 
       if (componentRef.instance.onActivate) {
         // v1.1.0: Enhancement #2 - Debug logging
@@ -427,37 +980,457 @@ export class PluginManager {
       return componentRef;
     } catch (error) {
       // v1.1.0: Fix #3 - Clear flag on error
-      this.registry.updateMetadata(pluginName, { isCreatingComponent: false });
+      if (isCreating) {
+        this.trackComponentCreation(pluginName, -1);
+      }
       this.handleError(pluginName, error as Error);
       throw new PluginLoadError(pluginName, error as Error);
     }
   }
 
-  private async executeLoad(pluginName: string): Promise<PluginMetadata> {
-    const entry = this.registry.get(pluginName);
-    if (!entry) {
+  /**
+   * v1.5.0: Destroy one component instance, running its onDeactivate/onDestroy hooks
+   * The plugin returns to LOADED once its last instance is destroyed
+   */
+  async destroyPluginComponent(
+    pluginName: string,
+    instance: string | ComponentRef<PluginLifecycle>
+  ): Promise<void> {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
       throw new PluginNotFoundError(pluginName);
     }
 
-    const { registration } = entry;
-    const currentState = entry.metadata.state;
+    const target = (metadata.instances || []).find(candidate =>
+      typeof instance === 'string'
+        ? candidate.instanceId === instance
+        : candidate.componentRef === instance
+    );
 
-    if (currentState === PluginState.LOADED || currentState === PluginState.ACTIVE) {
-      return entry.metadata;
+    if (!target) {
+      return;
+    }
+
+    this.debugLog(`Destroying component instance '${target.instanceId}' for plugin '${pluginName}'`);
+
+    try {
+      await this.destroyComponent(target.componentRef, pluginName);
+    } finally {
+      this.forgetInstance(pluginName, target.instanceId);
+    }
+  }
+
+  /**
+   * v1.5.0: Live component instances of a plugin
+   */
+  getPluginInstances(pluginName: string): PluginComponentInstance[] {
+    return [...(this.registry.getMetadata(pluginName)?.instances || [])];
+  }
+
+  private forgetInstance(pluginName: string, instanceId: string): void {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata?.instances?.some(instance => instance.instanceId === instanceId)) {
+      return;
+    }
+
+    const instances = metadata.instances.filter(instance => instance.instanceId !== instanceId);
+    const componentRef = instances[instances.length - 1]?.componentRef;
+
+    // Only an ACTIVE plugin drops back to LOADED; UNLOADING keeps its state
+    if (instances.length === 0 && metadata.state === PluginState.ACTIVE) {
+      this.logStateTransition(pluginName, metadata.state, PluginState.LOADED);
+      this.registry.updateMetadata(pluginName, { instances, componentRef, state: PluginState.LOADED });
+    } else {
+      this.registry.updateMetadata(pluginName, { instances, componentRef });
+    }
+  }
+
+  private trackComponentCreation(pluginName: string, delta: 1 | -1): void {
+    const pending = (this.pendingComponentCreations.get(pluginName) || 0) + delta;
+
+    if (pending > 0) {
+      this.pendingComponentCreations.set(pluginName, pending);
+    } else {
+      this.pendingComponentCreations.delete(pluginName);
+    }
+
+    if (this.registry.has(pluginName)) {
+      this.registry.updateMetadata(pluginName, { isCreatingComponent: pending > 0 });
+    }
+  }
+
+  // Instances tracked by the manager plus a componentRef set directly on the metadata
+  private getLiveComponentRefs(metadata: PluginMetadata): ComponentRef<PluginLifecycle>[] {
+    const componentRefs = (metadata.instances || []).map(instance => instance.componentRef);
+
+    if (metadata.componentRef && !componentRefs.includes(metadata.componentRef)) {
+      componentRefs.push(metadata.componentRef);
+    }
+
+    return componentRefs;
+  }
+
+  /**
+   * v1.5.0: Hot reload a LOADED or ACTIVE plugin
+   * Re-invokes the loadFn (remote plugins are re-fetched, bypassing the loader cache),
+   * swaps the manifest and re-creates every live component in the same view container position.
+   * Instances can hand state across the swap with onBeforeReload/onAfterReload.
+   * If fetching the new module fails, the running version is left untouched. If the new module's
+   * onLoad() or a re-created component fails, the previous module is restored in the same positions
+   * (with the handed-over state) and a PluginLoadError is thrown.
+   */
+  async reload(pluginName: string): Promise<PluginMetadata> {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
+      throw new PluginNotFoundError(pluginName);
+    }
+
+    if (!this.isReady(pluginName)) {
+      throw new PluginStateError(pluginName, 'LOADED or ACTIVE', metadata.state);
+    }
+
+    if (this.isUnloading(pluginName)) {
+      throw new PluginOperationInProgressError(pluginName, 'unloading');
+    }
+
+    if (metadata.isCreatingComponent) {
+      throw new PluginOperationInProgressError(pluginName, 'creating');
+    }
+
+    // Concurrent load() calls wait for the reload to finish
+    const existingPromise = this.loadingPromises.get(pluginName);
+    if (existingPromise) {
+      return existingPromise;
+    }
+
+    const reloadPromise = this.executeReload(pluginName);
+    this.loadingPromises.set(pluginName, reloadPromise);
+
+    try {
+      return await reloadPromise;
+    } finally {
+      this.loadingPromises.delete(pluginName);
+    }
+  }
+
+  /**
+   * v1.5.0: Replace a remote plugin with another version (e.g. the `config` of a checkForUpdates() result)
+   * An ACTIVE plugin is deactivated, swapped to the new module and re-activated in the same view containers.
+   * If the new version fails to load or its onLoad() throws, the previous version is restored and a
+   * PluginUpgradeError with `rolledBack: true` is thrown. A plugin that is not loaded yet just
+   * switches to the new config.
+   */
+  async upgrade(pluginName: string, newConfig: RemotePluginConfig): Promise<PluginMetadata> {
+    const metadata = this.registry.getMetadata(pluginName);
+    if (!metadata) {
+      throw new PluginNotFoundError(pluginName);
+    }
+
+    const previousConfig = this.remoteConfigs.get(pluginName);
+    if (!previousConfig) {
+      throw new PluginError(
+        `Plugin ${pluginName} was not registered from a remote URL and cannot be upgraded`,
+        pluginName,
+        undefined,
+        {
+          suggestion: 'Use reload() to swap the module of a plugin registered with register().'
+        }
+      );
+    }
+
+    if (newConfig.name !== pluginName) {
+      throw new PluginError(
+        `Cannot upgrade plugin ${pluginName} with the config of '${newConfig.name}'`,
+        pluginName,
+        undefined,
+        {
+          suggestion: 'The new config must keep the plugin name; register a differently named plugin instead.'
+        }
+      );
+    }
+
+    if (this.isUnloading(pluginName)) {
+      throw new PluginOperationInProgressError(pluginName, 'unloading');
+    }
+
+    if (this.deactivatingPromises.has(pluginName)) {
+      throw new PluginOperationInProgressError(pluginName, 'deactivating');
+    }
+
+    if (metadata.isCreatingComponent) {
+      throw new PluginOperationInProgressError(pluginName, 'creating');
+    }
+
+    // Wait for a running load or reload, then upgrade what it produced
+    await this.loadingPromises.get(pluginName)?.catch(() => undefined);
+
+    const upgradePromise = this.executeUpgrade(pluginName, previousConfig, newConfig);
+    this.loadingPromises.set(pluginName, upgradePromise);
+
+    try {
+      return await upgradePromise;
+    } finally {
+      this.loadingPromises.delete(pluginName);
+    }
+  }
+
+  private async executeUpgrade(
+    pluginName: string,
+    previousConfig: RemotePluginConfig,
+    newConfig: RemotePluginConfig
+  ): Promise<PluginMetadata> {
+    const metadata = this.registry.getMetadata(pluginName)!;
+    const lazy = !!metadata.remote?.lazy;
+    const fromVersion = this.getPluginVersion(pluginName) ?? previousConfig.version;
+
+    if (!this.isReady(pluginName)) {
+      // Only lazy plugins fetch their config at load time
+      if (!lazy) {
+        throw new PluginStateError(pluginName, 'LOADED or ACTIVE', metadata.state);
+      }
+
+      this.remoteLoader.unloadRemotePlugin(pluginName);
+      this.remoteConfigs.set(pluginName, newConfig);
+      this.setRemoteInfo(newConfig, true);
+      this.updateCatalogEntries(newConfig);
+      return this.registry.getMetadata(pluginName)!;
+    }
+
+    this.debugLog(`Upgrading plugin '${pluginName}' from ${fromVersion} to ${newConfig.version}`);
+
+    // Fetch first so a failed fetch leaves the running version untouched
+    const previousModule: LoadedPluginModule = metadata.moduleReference;
+    let result: RemotePluginLoadResult;
+    try {
+      result = await this.fetchRemoteModule(newConfig);
+    } catch (error) {
+      throw new PluginUpgradeError(pluginName, fromVersion, newConfig.version, error as Error, true);
+    }
+
+    // deactivate() remembers the view containers; activate() re-creates the plugin in them
+    const wasActive = metadata.state === PluginState.ACTIVE;
+    await this.deactivate(pluginName);
+    const viewContainers = wasActive ? this.deactivatedContainers.get(pluginName) || [] : [];
+
+    try {
+      await this.swapModule(pluginName, result.module);
+      this.setRemoteInfo(newConfig, lazy, result);
+
+      if (viewContainers.length > 0) {
+        await this.activate(pluginName);
+      }
+    } catch (error) {
+      this.debugLog(`Upgrade of '${pluginName}' failed, rolling back to ${fromVersion}`);
+      this.remoteLoader.unloadRemotePlugin(pluginName);
+
+      try {
+        const current = this.registry.getMetadata(pluginName)!;
+        for (const componentRef of this.getLiveComponentRefs(current)) {
+          await this.destroyComponent(componentRef, pluginName);
+        }
+        this.registry.updateMetadata(pluginName, { componentRef: undefined, instances: [] });
+
+        await this.swapModule(pluginName, previousModule);
+        this.setRemoteInfo(previousConfig, lazy);
+
+        if (viewContainers.length > 0) {
+          this.deactivatedContainers.set(pluginName, viewContainers);
+          await this.activate(pluginName);
+        }
+      } catch (rollbackError) {
+        this.debugLog(`Rollback of '${pluginName}' failed: ${rollbackError}`);
+        throw new PluginUpgradeError(pluginName, fromVersion, newConfig.version, error as Error, false);
+      }
+
+      throw new PluginUpgradeError(pluginName, fromVersion, newConfig.version, error as Error, true);
+    }
+
+    this.remoteConfigs.set(pluginName, newConfig);
+    this.updateCatalogEntries(newConfig);
+    this.debugLog(`Plugin '${pluginName}' upgraded to ${newConfig.version}`);
+
+    return this.registry.getMetadata(pluginName)!;
+  }
+
+  // Tear down the loaded module but keep the registration, then load the given module in its place
+  private async swapModule(pluginName: string, module: LoadedPluginModule): Promise<void> {
+    const current = this.registry.getMetadata(pluginName)!;
+    if (current.moduleReference !== module) {
+      await this.stopWorker(pluginName, current.moduleReference);
+    }
+    for (const disposable of [current.ngModuleRef, this.registry.getInjector(pluginName), this.registry.getContext(pluginName)]) {
+      try {
+        disposable?.destroy();
+      } catch (error) {
+        this.debugLog(`Warning: Cleanup failed while swapping '${pluginName}': ${error}`);
+      }
+    }
+
+    this.registry.updateMetadata(pluginName, {
+      ngModuleRef: undefined,
+      moduleReference: null,
+      injectorReference: null
+    });
+
+    await this.executeLoad(pluginName, module);
+  }
+
+  // An upgraded catalog plugin is reported as unchanged when the catalog lists the new version
+  private updateCatalogEntries(config: RemotePluginConfig): void {
+    for (const entries of this.catalogs.values()) {
+      const entry = entries.get(config.name);
+      if (entry) {
+        entries.set(config.name, { ...config, autoLoad: entry.autoLoad });
+      }
+    }
+  }
+
+  private async executeReload(pluginName: string): Promise<PluginMetadata> {
+    const entry = this.registry.get(pluginName)!;
+    const { registration, metadata } = entry;
+    const remoteConfig = this.remoteConfigs.get(pluginName);
+
+    this.debugLog(`Reloading plugin '${pluginName}'`);
+
+    // Fetch first so a failed fetch leaves the running version untouched
+    let module: LoadedPluginModule;
+    let remoteResult: RemotePluginLoadResult | undefined;
+    try {
+      if (remoteConfig) {
+        remoteResult = await this.fetchRemoteModule(remoteConfig, { bypassCache: true });
+        module = remoteResult.module;
+      } else {
+        module = await this.loadPluginModule(registration, pluginName);
+      }
+    } catch (error) {
+      throw new PluginLoadError(pluginName, error as Error);
+    }
+
+    // Remember where each live instance was rendered and what it wants to keep
+    const snapshots: ReloadSnapshot[] = [];
+    for (const instance of metadata.instances || []) {
+      const { componentRef, viewContainer } = instance;
+      const state = componentRef.instance.onBeforeReload
+        ? await this.callPluginLifecycleHookWithTimeout(
+            Promise.resolve(componentRef.instance.onBeforeReload()),
+            pluginName,
+            'onBeforeReload'
+          )
+        : undefined;
+
+      snapshots.push({
+        viewContainer,
+        index: typeof viewContainer?.indexOf === 'function' ? viewContainer.indexOf(componentRef.hostView) : -1,
+        state
+      });
+    }
+
+    const previousModule: LoadedPluginModule = metadata.moduleReference;
+
+    try {
+      await this.replaceInstances(pluginName, module, snapshots);
+    } catch (error) {
+      // Put the previous module back in the same positions, like a failed upgrade does
+      this.debugLog(`Reload of '${pluginName}' failed, restoring the previous version`);
+
+      try {
+        // A worker cannot be restarted once terminated, so headless plugins get a fresh one
+        const restoredModule = previousModule.worker
+          ? await this.loadPluginModule(registration, pluginName)
+          : previousModule;
+        await this.replaceInstances(pluginName, restoredModule, snapshots);
+      } catch (rollbackError) {
+        this.debugLog(`Restoring '${pluginName}' failed: ${rollbackError}`);
+      }
+
+      throw new PluginLoadError(pluginName, error as Error);
+    }
+
+    if (remoteConfig && remoteResult) {
+      this.setRemoteInfo(remoteConfig, !!metadata.remote?.lazy, remoteResult);
+    }
+
+    this.debugLog(`Plugin '${pluginName}' reloaded`);
+
+    return this.registry.getMetadata(pluginName)!;
+  }
+
+  // Destroy the live components, load the given module and re-create the components where they were
+  private async replaceInstances(
+    pluginName: string,
+    module: LoadedPluginModule,
+    snapshots: ReloadSnapshot[]
+  ): Promise<void> {
+    for (const componentRef of this.getLiveComponentRefs(this.registry.getMetadata(pluginName)!)) {
+      await this.destroyComponent(componentRef, pluginName);
+    }
+
+    this.registry.updateMetadata(pluginName, {
+      componentRef: undefined,
+      instances: []
+    });
+
+    await this.swapModule(pluginName, module);
+
+    // Re-create components in their previous positions and hand back their state
+    for (const snapshot of snapshots) {
+      if (!snapshot.viewContainer) {
+        continue;
+      }
+
+      const componentRef = await this.createPluginComponent(pluginName, snapshot.viewContainer);
+
+      if (snapshot.index >= 0 && typeof snapshot.viewContainer.move === 'function') {
+        snapshot.viewContainer.move(componentRef.hostView, snapshot.index);
+      }
+
+      if (componentRef.instance.onAfterReload) {
+        await this.callPluginLifecycleHookWithTimeout(
+          Promise.resolve(componentRef.instance.onAfterReload(snapshot.state, this.registry.getContext(pluginName)!)),
+          pluginName,
+          'onAfterReload'
+        );
+      }
+    }
+  }
+
+  private async executeLoad(
+    pluginName: string,
+    preloadedModule?: LoadedPluginModule // v1.5.0: Module fetched by reload()
+  ): Promise<PluginMetadata> {
+    const entry = this.registry.get(pluginName);
+    if (!entry) {
+      throw new PluginNotFoundError(pluginName);
+    }
+
+    const { registration } = entry;
+    const currentState = entry.metadata.state;
+
+    if (!preloadedModule && (currentState === PluginState.LOADED || currentState === PluginState.ACTIVE)) {
+      return entry.metadata;
     }
 
     if (currentState === PluginState.LOADING) {
       throw new PluginStateError(pluginName, 'not LOADING', currentState);
     }
 
+    let module: LoadedPluginModule | undefined;
+
     try {
       // v1.1.0: Enhancement #2 - Debug logging
       this.logStateTransition(pluginName, currentState, PluginState.LOADING);
 
-      this.registry.updateMetadata(pluginName, {
-        state: PluginState.LOADING,
-        error: undefined
-      });
+      const maxAttempts = this.getMaxLoadAttempts(registration);
+
+      this.registry.updateMetadata(
+        pluginName,
+        {
+          state: PluginState.LOADING,
+          error: undefined,
+          loadAttempts: []
+        },
+        { attempt: 1, maxAttempts }
+      );
 
       await this.callLifecycleHook(pluginName, 'beforeLoad');
 
@@ -465,7 +1438,7 @@ export class PluginManager {
       this.debugLog(`Loading module for plugin '${pluginName}'`);
       const loadStartTime = Date.now();
 
-      const module = await this.loadPluginModule(registration, pluginName);
+      module = preloadedModule || (await this.loadPluginModuleWithRetry(registration, pluginName, maxAttempts));
 
       // v1.1.0: Enhancement #2 - Validate manifest in debug mode
       if (this.config?.enableDevMode && this.config?.debugOptions?.validateManifests) {
@@ -477,13 +1450,21 @@ export class PluginManager {
 
       this.registry.setManifest(pluginName, module.PluginManifest);
 
-      const context = this.createPluginContext(pluginName, registration);
+      // v1.5.0: Dependencies must be LOADED before the plugin's own onLoad runs
+      await this.loadDependencies(pluginName, module.PluginManifest);
+
+      // v1.5.0: Resolve capabilities before any plugin code runs with the context
+      const { grantedPermissions, pendingConsent } = await this.resolvePermissions(pluginName, module.PluginManifest);
+      this.registry.updateMetadata(pluginName, { grantedPermissions, pendingConsent });
+
+      const context = this.createPluginContext(pluginName, registration, grantedPermissions);
       this.registry.setContext(pluginName, context);
 
+      // v1.5.0: Parented on the context's filtered host injector, so plugin DI is constrained too
       const pluginInjector = createPluginInjector({
-        parent: this.injector as EnvironmentInjector,
+        parent: context.hostInjector as EnvironmentInjector,
         context,
-        providers: []
+        providers: module.PluginManifest.providers || []
       });
 
       this.registry.setInjector(pluginName, pluginInjector);
@@ -501,7 +1482,9 @@ export class PluginManager {
 
       // For NgModule plugins, onLoad will be called during createPluginComponent
       // where the component is created with proper dependency injection
-      const instance = hasEntryModule ? null : new module.PluginManifest.entryComponent();
+      // v1.5.0: Worker plugins have no component; the worker host forwards onLoad to the worker
+      const entryComponent = module.PluginManifest.entryComponent;
+      const instance = hasEntryModule ? null : module.worker || (entryComponent ? new entryComponent() : null);
 
       if (instance && instance.onLoad) {
         // v1.1.0: Enhancement #2 - Debug logging
@@ -543,18 +1526,141 @@ export class PluginManager {
           // Defensive: ignore context destruction errors during error handling
         }
       }
+      module?.worker?.terminate();
       this.handleError(pluginName, error as Error);
+
+      // v1.5.0: Surface dependency failures with their own error type
+      if (error instanceof PluginDependencyError) {
+        throw error;
+      }
       throw new PluginLoadError(pluginName, error as Error);
     }
   }
 
+  // v1.5.0: Resolve PluginManifest.dependencies before the dependent plugin loads
+  private async loadDependencies(pluginName: string, manifest: PluginManifest): Promise<void> {
+    const dependencies = manifest.dependencies || {};
+    const dependencyNames = Object.keys(dependencies);
+
+    if (dependencyNames.length === 0) {
+      return;
+    }
+
+    const cycle = findDependencyCycle(pluginName, name => this.registry.getDependencies(name));
+    if (cycle) {
+      throw new PluginDependencyError(pluginName, cycle[1], 'CIRCULAR', { cycle });
+    }
+
+    for (const name of dependencyNames) {
+      if (!this.registry.has(name)) {
+        throw new PluginDependencyError(pluginName, name, 'MISSING', {
+          requiredRange: dependencies[name]
+        });
+      }
+    }
+
+    this.debugLog(`Loading dependencies for plugin '${pluginName}': ${dependencyNames.join(', ')}`);
+
+    await Promise.all(
+      dependencyNames.map(async name => {
+        let dependency: PluginMetadata;
+        try {
+          dependency = await this.load(name);
+        } catch (error) {
+          // A cycle found further down the graph is reported as-is
+          if (error instanceof PluginDependencyError && error.reason === 'CIRCULAR') {
+            throw error;
+          }
+          throw new PluginDependencyError(pluginName, name, 'LOAD_FAILED', {}, error as Error);
+        }
+
+        const requiredRange = dependencies[name];
+        const actualVersion = dependency.manifest.version;
+
+        if (!satisfiesVersionRange(actualVersion, requiredRange)) {
+          throw new PluginDependencyError(pluginName, name, 'INCOMPATIBLE', {
+            requiredRange,
+            actualVersion
+          });
+        }
+      })
+    );
+  }
+
+  // v1.5.0: Honour PluginConfig.retryOnError / maxRetries for the loadFn
+  private async loadPluginModuleWithRetry(
+    registration: PluginRegistration,
+    pluginName: string,
+    maxAttempts: number
+  ): Promise<LoadedPluginModule> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.loadPluginModule(registration, pluginName);
+      } catch (error) {
+        const hasNextAttempt = attempt < maxAttempts;
+        const retryDelay = hasNextAttempt ? this.getRetryDelay(registration, attempt) : undefined;
+
+        const loadAttempts = this.registry.getMetadata(pluginName)?.loadAttempts || [];
+        this.registry.updateMetadata(pluginName, {
+          loadAttempts: [
+            ...loadAttempts,
+            { attempt, error: error as Error, timestamp: new Date(), retryDelay }
+          ]
+        });
+
+        if (!hasNextAttempt) {
+          throw error;
+        }
+
+        this.debugLog(
+          `Load attempt ${attempt}/${maxAttempts} failed for plugin '${pluginName}', retrying in ${retryDelay}ms`
+        );
+        await this.delay(retryDelay!);
+
+        this.registry.updateMetadata(
+          pluginName,
+          { state: PluginState.LOADING },
+          { attempt: attempt + 1, maxAttempts }
+        );
+      }
+    }
+  }
+
+  private getMaxLoadAttempts(registration: PluginRegistration): number {
+    if (!registration.config?.retryOnError) {
+      return 1;
+    }
+
+    return 1 + Math.max(0, registration.config.maxRetries ?? 3);
+  }
+
+  private getRetryDelay(registration: PluginRegistration, attempt: number): number {
+    const baseDelay = registration.config?.retryDelay ?? 1000;
+    const maxDelay = registration.config?.maxRetryDelay ?? 5000;
+
+    switch (registration.config?.retryBackoff) {
+      case 'fixed':
+        return Math.min(baseDelay, maxDelay);
+      case 'jittered':
+        // Full jitter: random delay up to the exponential backoff value
+        return Math.round(Math.random() * Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay));
+      default:
+        return Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
   private async loadPluginModule(
     registration: PluginRegistration,
     pluginName: string
   ): Promise<LoadedPluginModule> {
     const timeout = registration.config?.timeout || this.config?.globalTimeout;
 
-    if (timeout) {
+    // Worker plugins time out in PluginWorkerHost.start(), with a message that names the cause
+    if (timeout && !this.workerPlugins.has(pluginName)) {
       return this.loadWithTimeout(registration.loadFn, timeout, pluginName);
     }
 
@@ -576,7 +1682,8 @@ export class PluginManager {
 
   private createPluginContext(
     pluginName: string,
-    registration: PluginRegistration
+    registration: PluginRegistration,
+    grantedPermissions?: string[]
   ): PluginContextImpl {
     const allowedServices =
       registration.config?.allowedServices ||
@@ -586,10 +1693,153 @@ export class PluginManager {
     return new PluginContextImpl({
       pluginName,
       hostInjector: this.injector,
-      allowedServices
+      allowedServices,
+      eventBus: this.eventBus,
+      allowedEvents: registration.config?.allowedEvents,
+      serviceResolver: token => this.resolvePluginService(pluginName, token),
+      permissions: this.createContextPermissions(grantedPermissions),
+      auditLog: this.auditLog,
+      // The plugin system services reach every plugin and the unfiltered host injector
+      deniedServices: [PluginManager, PluginRegistry, RemotePluginLoader, PluginAuditLog, PluginEventBus]
     });
   }
 
+  // v1.5.0: Manifest permissions the policy grants, via `grants` or `decide`; none without a policy
+  // Sensitive capabilities are held back in pendingConsent until ensureConsent() approves them
+  private async resolvePermissions(
+    pluginName: string,
+    manifest: PluginManifest
+  ): Promise<{ grantedPermissions?: string[]; pendingConsent?: string[] }> {
+    const policy = this.config?.permissionPolicy;
+    if (!policy) {
+      return {};
+    }
+
+    const grants = [...(policy.grants?.['*'] || []), ...(policy.grants?.[pluginName] || [])];
+    const granted: string[] = [];
+    const pendingConsent: string[] = [];
+
+    for (const capability of manifest.permissions || []) {
+      if (hasCapability(grants, capability) || (await policy.decide?.({ pluginName, capability, manifest }))) {
+        (hasCapability(policy.sensitive || [], capability) ? pendingConsent : granted).push(capability);
+      }
+    }
+
+    const denied = (manifest.permissions || []).filter(
+      capability => !granted.includes(capability) && !pendingConsent.includes(capability)
+    );
+    if (denied.length > 0) {
+      this.debugLog(`Permissions denied for plugin '${pluginName}': ${denied.join(', ')}`);
+    }
+
+    return { grantedPermissions: granted, pendingConsent };
+  }
+
+  private ensureConsent(pluginName: string): Promise<void> {
+    if (!this.registry.getMetadata(pluginName)?.pendingConsent?.length) {
+      return Promise.resolve();
+    }
+
+    let promise = this.consentPromises.get(pluginName);
+    if (!promise) {
+      promise = this.requestConsent(pluginName).finally(() => this.consentPromises.delete(pluginName));
+      this.consentPromises.set(pluginName, promise);
+    }
+
+    return promise;
+  }
+
+  // v1.5.0: Ask (or recall) the user's decision for each pending capability; any denial moves the plugin to ERROR
+  private async requestConsent(pluginName: string): Promise<void> {
+    const metadata = this.registry.getMetadata(pluginName)!;
+    const storage = this.getConsentStorage();
+    const approved: string[] = [];
+
+    try {
+      for (const capability of metadata.pendingConsent || []) {
+        let decision = await storage.get(pluginName, capability);
+
+        if (!decision) {
+          if (!this.consentHandler) {
+            throw new PluginConsentError(pluginName, capability, true);
+          }
+
+          const granted = await this.consentHandler.requestConsent({ pluginName, capability, manifest: metadata.manifest });
+          decision = { pluginName, capability, granted: !!granted, decidedAt: Date.now() };
+          await storage.set(decision);
+        }
+
+        this.auditLog.record({ type: 'permission', pluginName, capability, granted: decision.granted, source: 'consent' });
+
+        if (!decision.granted) {
+          throw new PluginConsentError(pluginName, capability);
+        }
+
+        approved.push(capability);
+      }
+
+      const current = this.registry.getMetadata(pluginName)!;
+      this.registry.updateMetadata(pluginName, {
+        grantedPermissions: [...(current.grantedPermissions || []), ...approved],
+        pendingConsent: []
+      });
+      this.registry.getContext(pluginName)?.grantPermissions(approved);
+    } catch (error) {
+      this.handleError(pluginName, error as Error);
+      throw error;
+    }
+  }
+
+  private getConsentStorage(): PluginConsentStorage {
+    this.consentStorage ??= this.config?.permissionPolicy?.consentStorage || createDefaultPluginConsentStorage();
+    return this.consentStorage;
+  }
+
+  private createContextPermissions(grantedPermissions?: string[]): PluginContextPermissions | undefined {
+    const policy = this.config?.permissionPolicy;
+    if (!policy || !grantedPermissions) {
+      return undefined;
+    }
+
+    return {
+      granted: [...grantedPermissions], // Consent grants are added through PluginContextImpl.grantPermissions()
+      capabilityFor: token => {
+        const mapped = policy.services?.find(entry => entry.token === token);
+        if (mapped) {
+          return mapped.capability;
+        }
+
+        const providerName = this.registry.findServiceProvider(token);
+        return providerName ? `plugin:${providerName}` : undefined;
+      },
+      onViolation: policy.onViolation || (this.config?.enableDevMode ? 'log' : 'throw')
+    };
+  }
+
+  // v1.5.0: Resolve a token exported by another loaded plugin via PluginManifest.provides
+  private resolvePluginService<T>(
+    consumerName: string,
+    token: InjectionToken<T> | Type<T>
+  ): T | null {
+    const providerName = this.registry.findServiceProvider(token);
+    if (!providerName) {
+      return null;
+    }
+
+    // NgModule plugins resolve from their module injector, a child of the plugin injector
+    const injector =
+      this.registry.getMetadata(providerName)?.ngModuleRef?.injector ??
+      this.registry.getInjector(providerName);
+
+    const service = injector?.get(token, null) ?? null;
+
+    if (service !== null && providerName !== consumerName) {
+      this.registry.addServiceConsumer(providerName, consumerName);
+    }
+
+    return service;
+  }
+
   private async destroyComponent(
     componentRef: ComponentRef<PluginLifecycle>,
     pluginName: string
@@ -683,9 +1933,14 @@ export class PluginManager {
       loadedAt: metadata.loadedAt,
       activatedAt: metadata.activatedAt,
       manifest: metadata.manifest,
-      hasComponent: !!metadata.componentRef,
+      hasComponent: !!metadata.componentRef || !!metadata.instances?.length,
+      instanceCount: metadata.instances?.length || 0,
       errorCount: metadata.errorCount || 0,
-      lastError: metadata.error
+      lastError: metadata.error,
+      retryHistory: metadata.loadAttempts || [],
+      remote: metadata.remote,
+      grantedPermissions: metadata.grantedPermissions,
+      pendingConsent: metadata.pendingConsent
     };
   }
 
@@ -740,10 +1995,14 @@ export class PluginManager {
       warnings.push(`Manifest version '${manifest.version}' does not follow semver format`);
     }
 
-    if (!manifest.entryComponent) {
+    if (!manifest.entryComponent && !manifest.headless) {
       errors.push('Manifest missing required field: entryComponent');
     }
 
+    if (manifest.permissions && !manifest.permissions.every(capability => typeof capability === 'string' && capability)) {
+      errors.push('Manifest permissions must be non-empty strings');
+    }
+
     if (errors.length > 0) {
       const errorMessage = `Plugin '${pluginName}' manifest validation failed:\n${errors.join('\n')}`;
       console.error(`[PluginSystem] ${errorMessage}`);
@@ -774,9 +2033,9 @@ export class PluginManager {
 
     this.debugLog(`Unloading ${activePlugins.length} plugins`);
 
-    // Unload all plugins in parallel
+    // Unload all plugins in parallel (v1.5.0: cascade so dependents go first)
     await Promise.allSettled(
-      activePlugins.map(plugin => this.unregister(plugin.manifest.name))
+      activePlugins.map(plugin => this.unregister(plugin.manifest.name, { cascade: true }))
     );
   }
 
@@ -4,7 +4,8 @@ import { PluginState } from '../types/plugin.types';
 import { PluginRegistration } from '../types/registration.types';
 import {
   PluginAlreadyRegisteredError,
-  PluginNotFoundError
+  PluginNotFoundError,
+  PluginStateError
 } from '../types/errors.types';
 
 describe('PluginRegistry', () => {
@@ -136,6 +137,7 @@ describe('PluginRegistry', () => {
 
       registry.register(registration1);
       registry.register(registration2);
+      registry.updateMetadata('plugin1', { state: PluginState.LOADING });
       registry.updateMetadata('plugin1', { state: PluginState.LOADED });
 
       const loadedPlugins = registry.getPluginsByState(PluginState.LOADED);
@@ -561,6 +563,7 @@ describe('PluginRegistry', () => {
         registry.register(registration);
 
         const loadedAt = new Date();
+        registry.updateMetadata('multi-update-test', { state: PluginState.LOADING });
         registry.updateMetadata('multi-update-test', {
           state: PluginState.LOADED,
           loadedAt,
@@ -588,6 +591,7 @@ describe('PluginRegistry', () => {
         registry.register(registration);
 
         const loadedAt = new Date();
+        registry.updateMetadata('preserve-test', { state: PluginState.LOADING });
         registry.updateMetadata('preserve-test', {
           state: PluginState.LOADED,
           loadedAt
@@ -656,4 +660,70 @@ describe('PluginRegistry', () => {
       });
     });
   });
+
+  describe('v1.5.0 State Machine', () => {
+    const registration: PluginRegistration = {
+      name: 'fsm-plugin',
+      loadFn: async () => ({
+        PluginManifest: {
+          name: 'fsm-plugin',
+          version: '1.0.0',
+          entryComponent: class {} as any
+        }
+      })
+    };
+
+    beforeEach(() => {
+      registry.register(registration);
+    });
+
+    it('should reject illegal transitions and keep the current state', () => {
+      registry.updateMetadata('fsm-plugin', { state: PluginState.ERROR });
+
+      expect(() => registry.updateMetadata('fsm-plugin', { state: PluginState.ACTIVE }))
+        .toThrowError(PluginStateError, /cannot transition from ERROR to ACTIVE/);
+      expect(registry.getMetadata('fsm-plugin')?.state).toBe(PluginState.ERROR);
+    });
+
+    it('should still allow updates that do not change the state', () => {
+      registry.updateMetadata('fsm-plugin', { errorCount: 2 });
+
+      expect(registry.getMetadata('fsm-plugin')?.errorCount).toBe(2);
+    });
+
+    it('should include from and to in state events', () => {
+      const events: any[] = [];
+      registry.state$.subscribe(event => events.push(event));
+
+      registry.updateMetadata('fsm-plugin', { state: PluginState.LOADING });
+
+      const last = events[events.length - 1];
+      expect(last.from).toBe(PluginState.REGISTERED);
+      expect(last.to).toBe(PluginState.LOADING);
+      expect(last.state).toBe(PluginState.LOADING);
+    });
+
+    it('should report the allowed next states', () => {
+      registry.updateMetadata('fsm-plugin', { state: PluginState.LOADING });
+      registry.updateMetadata('fsm-plugin', { state: PluginState.LOADED });
+
+      expect(registry.getAllowedTransitions('fsm-plugin')).toEqual([
+        PluginState.ACTIVE,
+        PluginState.LOADING,
+        PluginState.UNLOADING,
+        PluginState.ERROR
+      ]);
+    });
+
+    it('should emit UNLOADED from the last state on unregister', () => {
+      const events: any[] = [];
+      registry.state$.subscribe(event => events.push(event));
+
+      registry.unregister('fsm-plugin');
+
+      const last = events[events.length - 1];
+      expect(last.from).toBe(PluginState.REGISTERED);
+      expect(last.to).toBe(PluginState.UNLOADED);
+    });
+  });
 });
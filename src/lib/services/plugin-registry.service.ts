@@ -1,4 +1,4 @@
-import { Injectable, EnvironmentInjector } from '@angular/core';
+import { Injectable, Optional, EnvironmentInjector, InjectionToken, Type } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import {
   PluginMetadata,
@@ -7,14 +7,17 @@ import {
   PluginManifest
 } from '../types/plugin.types';
 import { PluginRegistration } from '../types/registration.types';
-import { PluginAlreadyRegisteredError, PluginNotFoundError } from '../types/errors.types';
+import { PluginAlreadyRegisteredError, PluginNotFoundError, PluginStateError } from '../types/errors.types';
 import { PluginContextImpl } from '../utils/plugin-context.impl';
+import { getAllowedStateTransitions, isValidStateTransition } from '../utils/plugin-state-machine.util';
+import { PluginAuditLog } from './plugin-audit-log.service';
 
 interface RegistryEntry {
   registration: PluginRegistration;
   metadata: PluginMetadata;
   injector?: EnvironmentInjector;
   context?: PluginContextImpl;
+  serviceConsumers?: Set<string>; // v1.5.0: Plugins using services this plugin provides
 }
 
 @Injectable({ providedIn: 'root' })
@@ -24,6 +27,8 @@ export class PluginRegistry {
 
   readonly state$: Observable<PluginStateEvent | null> = this.stateSubject.asObservable();
 
+  constructor(@Optional() private readonly auditLog?: PluginAuditLog) {}
+
   register(registration: PluginRegistration): void {
     if (this.registry.has(registration.name)) {
       throw new PluginAlreadyRegisteredError(registration.name);
@@ -43,7 +48,7 @@ export class PluginRegistry {
       metadata
     });
 
-    this.emitStateChange(registration.name, PluginState.REGISTERED);
+    this.emitStateChange(registration.name, undefined, PluginState.REGISTERED);
   }
 
   unregister(name: string): void {
@@ -65,7 +70,8 @@ export class PluginRegistry {
     }
 
     this.registry.delete(name);
-    this.emitStateChange(name, PluginState.UNLOADED);
+    this.registry.forEach(other => other.serviceConsumers?.delete(name));
+    this.emitStateChange(name, entry.metadata.state, PluginState.UNLOADED);
   }
 
   has(name: string): boolean {
@@ -80,17 +86,37 @@ export class PluginRegistry {
     return this.registry.get(name)?.metadata;
   }
 
-  updateMetadata(name: string, updates: Partial<PluginMetadata>): void {
+  updateMetadata(
+    name: string,
+    updates: Partial<PluginMetadata>,
+    eventDetails?: Pick<PluginStateEvent, 'attempt' | 'maxAttempts'>
+  ): void {
     const entry = this.registry.get(name);
     if (!entry) {
       throw new PluginNotFoundError(name);
     }
 
+    // v1.5.0: Reject state changes not listed in PLUGIN_STATE_TRANSITIONS
+    const from = entry.metadata.state;
+    if (updates.state && !isValidStateTransition(from, updates.state)) {
+      throw new PluginStateError(name, getAllowedStateTransitions(from).join(', '), from, updates.state);
+    }
+
     entry.metadata = { ...entry.metadata, ...updates };
 
     if (updates.state) {
-      this.emitStateChange(name, updates.state, updates.error);
+      this.emitStateChange(name, from, updates.state, updates.error, eventDetails);
+    }
+  }
+
+  // v1.5.0: States the plugin may move to next
+  getAllowedTransitions(name: string): PluginState[] {
+    const entry = this.registry.get(name);
+    if (!entry) {
+      throw new PluginNotFoundError(name);
     }
+
+    return getAllowedStateTransitions(entry.metadata.state);
   }
 
   setManifest(name: string, manifest: PluginManifest): void {
@@ -128,6 +154,46 @@ export class PluginRegistry {
     return this.registry.get(name)?.context;
   }
 
+  // v1.5.0: Dependency graph edges derived from loaded manifests
+  getDependencies(name: string): string[] {
+    return Object.keys(this.registry.get(name)?.metadata.manifest.dependencies || {});
+  }
+
+  // Includes plugins consuming services provided by this plugin (v1.5.0)
+  getDependents(name: string): string[] {
+    const dependents = Array.from(this.registry.entries())
+      .filter(([, entry]) => name in (entry.metadata.manifest.dependencies || {}))
+      .map(([pluginName]) => pluginName);
+
+    const consumers = Array.from(this.registry.get(name)?.serviceConsumers || []);
+
+    return Array.from(new Set([...dependents, ...consumers]));
+  }
+
+  // v1.5.0: Find the loaded plugin exporting a token via PluginManifest.provides
+  findServiceProvider(token: InjectionToken<any> | Type<any>): string | undefined {
+    for (const [name, entry] of this.registry) {
+      const { state, manifest } = entry.metadata;
+      const isLoaded = state === PluginState.LOADED || state === PluginState.ACTIVE;
+
+      if (isLoaded && manifest.provides?.includes(token)) {
+        return name;
+      }
+    }
+
+    return undefined;
+  }
+
+  addServiceConsumer(providerName: string, consumerName: string): void {
+    const entry = this.registry.get(providerName);
+    if (!entry) {
+      throw new PluginNotFoundError(providerName);
+    }
+
+    entry.serviceConsumers ??= new Set();
+    entry.serviceConsumers.add(consumerName);
+  }
+
   getAllMetadata(): PluginMetadata[] {
     return Array.from(this.registry.values()).map(entry => entry.metadata);
   }
@@ -158,12 +224,24 @@ export class PluginRegistry {
     this.registry.clear();
   }
 
-  private emitStateChange(pluginName: string, state: PluginState, error?: Error): void {
+  private emitStateChange(
+    pluginName: string,
+    from: PluginState | undefined,
+    state: PluginState,
+    error?: Error,
+    eventDetails?: Pick<PluginStateEvent, 'attempt' | 'maxAttempts'>
+  ): void {
     this.stateSubject.next({
       pluginName,
       state,
+      from,
+      to: state,
       timestamp: new Date(),
-      error
+      error,
+      ...eventDetails
     });
+
+    // v1.5.0: Audit trail of state transitions
+    this.auditLog?.record({ type: 'state', pluginName, from, to: state, error: error?.message });
   }
 }
@@ -0,0 +1,456 @@
+import { TestBed } from '@angular/core/testing';
+import { RemotePluginLoader } from './remote-plugin-loader.service';
+import { RemotePluginConfig, RemotePluginSigningKey } from '../types/remote-plugin.types';
+import { PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import { MemoryRemotePluginStorage } from '../utils/remote-plugin-storage';
+
+describe('RemotePluginLoader', () => {
+  let loader: RemotePluginLoader;
+  let trustedSigningKeys: RemotePluginSigningKey[];
+
+  beforeEach(() => {
+    trustedSigningKeys = [];
+    TestBed.configureTestingModule({
+      providers: [
+        RemotePluginLoader,
+        { provide: PLUGIN_SYSTEM_CONFIG, useFactory: () => ({ trustedSigningKeys }) }
+      ]
+    });
+
+    loader = TestBed.inject(RemotePluginLoader);
+  });
+
+  afterEach(() => {
+    loader.clearCache();
+  });
+
+  describe('v1.5.0 ES module format', () => {
+    const manifest = { PluginManifest: { name: 'esm-plugin', version: '1.0.0' } };
+    const config: RemotePluginConfig = {
+      name: 'esm-plugin',
+      remoteUrl: 'https://cdn.example.com/plugins/esm-plugin.mjs',
+      exposedModule: 'EsmPlugin',
+      format: 'esm',
+      retry: false
+    };
+
+    let importSpy: jasmine.Spy;
+
+    beforeEach(() => {
+      importSpy = spyOn(loader as any, 'importModule').and.resolveTo({ EsmPlugin: manifest });
+    });
+
+    it('should import the URL and pick the named export', async () => {
+      const result = await loader.loadRemotePlugin(config);
+
+      expect(importSpy).toHaveBeenCalledWith(config.remoteUrl);
+      expect(result.module).toBe(manifest);
+      expect(result.fromCache).toBe(false);
+      expect(document.querySelector(`script[src="${config.remoteUrl}"]`)).toBeNull();
+      expect((window as any)['EsmPlugin']).toBeUndefined();
+    });
+
+    it('should cache each plugin version separately and drop the previous one', async () => {
+      await loader.loadRemotePlugin({ ...config, version: '1.0.0' });
+      const result = await loader.loadRemotePlugin({ ...config, version: '1.1.0' });
+
+      expect(result.fromCache).toBe(false);
+      expect(importSpy).toHaveBeenCalledTimes(2);
+      expect(importSpy.calls.mostRecent().args[0]).toBe(`${config.remoteUrl}?v=1`);
+      expect(loader.getCacheStats().size).toBe(1);
+    });
+
+    it('should serve repeated loads from the cache by URL', async () => {
+      await loader.loadRemotePlugin(config);
+      const result = await loader.loadRemotePlugin(config);
+
+      expect(result.fromCache).toBe(true);
+      expect(importSpy).toHaveBeenCalledTimes(1);
+      expect(loader.getCacheStats().entries.map(entry => entry.url)).toEqual([config.remoteUrl]);
+    });
+
+    it('should import a fresh copy after eviction', async () => {
+      await loader.loadRemotePlugin(config);
+      loader.unloadRemotePlugin(config.remoteUrl);
+
+      await loader.loadRemotePlugin(config);
+
+      expect(loader.getCacheStats().size).toBe(1);
+      expect(importSpy.calls.mostRecent().args[0]).toBe(`${config.remoteUrl}?v=1`);
+    });
+
+    it('should fail with MODULE_NOT_FOUND when the export is missing', async () => {
+      await expectAsync(
+        loader.loadRemotePlugin({ ...config, exposedModule: 'Missing' })
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'MODULE_NOT_FOUND', pluginName: 'esm-plugin' }));
+    });
+
+    it('should fail with NETWORK_ERROR when the import fails', async () => {
+      importSpy.and.rejectWith(new TypeError('Failed to fetch dynamically imported module'));
+
+      await expectAsync(loader.loadRemotePlugin(config)).toBeRejectedWith(
+        jasmine.objectContaining({ code: 'NETWORK_ERROR' })
+      );
+    });
+  });
+
+  describe('v1.5.0 Module Federation', () => {
+    const manifest = { PluginManifest: { name: 'mf-plugin', version: '1.0.0' } };
+    const config: RemotePluginConfig = {
+      name: 'mf-plugin',
+      remoteUrl: 'https://cdn.example.com/mf/remoteEntry.js',
+      exposedModule: './Plugin',
+      format: 'federation',
+      federation: { remoteName: 'mfRemote', type: 'module' },
+      retry: false
+    };
+
+    let container: jasmine.SpyObj<any>;
+    let importSpy: jasmine.Spy;
+
+    beforeEach(() => {
+      container = jasmine.createSpyObj('FederationContainer', ['init', 'get']);
+      container.get.and.callFake(async (path: string) => {
+        if (path === './Plugin') {
+          return () => manifest;
+        }
+        throw new Error(`Module ${path} does not exist in container`);
+      });
+      importSpy = spyOn(loader as any, 'importModule').and.resolveTo(container);
+    });
+
+    it('should initialize the container with a share scope and get the exposed module', async () => {
+      const result = await loader.loadRemotePlugin(config);
+
+      expect(importSpy).toHaveBeenCalledWith(config.remoteUrl);
+      expect(container.init).toHaveBeenCalledWith(jasmine.any(Object));
+      expect(container.get).toHaveBeenCalledWith('./Plugin');
+      expect(result.module).toBe(manifest);
+    });
+
+    it('should initialize a container once for several exposed modules', async () => {
+      const otherManifest = { PluginManifest: { name: 'mf-other', version: '1.0.0' } };
+      container.get.and.callFake(async (path: string) => () => (path === './Other' ? otherManifest : manifest));
+
+      await loader.loadRemotePlugin(config);
+      const other = await loader.loadRemotePlugin({ ...config, name: 'mf-other', exposedModule: './Other' });
+
+      expect(other.module).toBe(otherManifest);
+      expect(container.init).toHaveBeenCalledTimes(1);
+      expect(loader.getCacheStats().size).toBe(2);
+
+      loader.unloadRemotePlugin(config.remoteUrl);
+      expect(loader.getCacheStats().size).toBe(0);
+    });
+
+    it('should fail with MODULE_NOT_FOUND for an unknown exposed module', async () => {
+      await expectAsync(
+        loader.loadRemotePlugin({ ...config, exposedModule: './Missing' })
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'MODULE_NOT_FOUND' }));
+    });
+
+    it('should read a script remote container from window', async () => {
+      const windowContainer = { init: jasmine.createSpy('init'), get: async () => () => manifest };
+      (window as any)['mfScriptRemote'] = windowContainer;
+      spyOn(loader as any, 'loadScript').and.callFake(async () => (window as any)['mfScriptRemote']);
+
+      const result = await loader.loadRemotePlugin({
+        ...config,
+        remoteUrl: 'https://cdn.example.com/mf-script/remoteEntry.js',
+        federation: { remoteName: 'mfScriptRemote' }
+      });
+
+      expect(result.module).toBe(manifest);
+      expect(windowContainer.init).toHaveBeenCalled();
+
+      loader.unloadRemotePlugin('https://cdn.example.com/mf-script/remoteEntry.js');
+      expect((window as any)['mfScriptRemote']).toBeUndefined();
+    });
+  });
+
+  describe('v1.5.0 Integrity and Signatures', () => {
+    const source = new TextEncoder().encode('export const SignedPlugin = {};').buffer;
+    const manifest = { PluginManifest: { name: 'signed-plugin', version: '1.0.0' } };
+    const config: RemotePluginConfig = {
+      name: 'signed-plugin',
+      remoteUrl: 'https://cdn.example.com/plugins/signed-plugin.mjs',
+      exposedModule: 'SignedPlugin',
+      format: 'esm'
+    };
+
+    const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+    const sha384 = async (buffer: ArrayBuffer) => `sha384-${toBase64(await crypto.subtle.digest('SHA-384', buffer))}`;
+
+    let fetchSpy: jasmine.Spy;
+    let importSpy: jasmine.Spy;
+
+    beforeEach(() => {
+      fetchSpy = spyOn(loader as any, 'fetchSource').and.resolveTo(source);
+      importSpy = spyOn(loader as any, 'importModule').and.resolveTo({ SignedPlugin: manifest });
+      spyOn(loader as any, 'createObjectUrl').and.returnValue('blob:verified');
+      spyOn(loader as any, 'revokeObjectUrl');
+    });
+
+    it('should import the verified bytes when the integrity hash matches', async () => {
+      const result = await loader.loadRemotePlugin({ ...config, integrity: await sha384(source) });
+
+      expect(fetchSpy).toHaveBeenCalledWith(config.remoteUrl, jasmine.any(Number));
+      expect(importSpy).toHaveBeenCalledWith('blob:verified');
+      expect(result.module).toBe(manifest);
+    });
+
+    it('should fail with INTEGRITY_FAILED without retrying when the hash differs', async () => {
+      const tampered = new TextEncoder().encode('tampered').buffer;
+
+      await expectAsync(
+        loader.loadRemotePlugin({ ...config, integrity: await sha384(tampered), retryAttempts: 3 })
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'INTEGRITY_FAILED' }));
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(importSpy).not.toHaveBeenCalled();
+    });
+
+    it('should set the SRI attribute on script tags', async () => {
+      const appendSpy = spyOn(document.head, 'appendChild').and.callFake(<T extends Node>(node: T) => {
+        (window as any)['SriPlugin'] = manifest;
+        node.dispatchEvent(new window.Event('load'));
+        return node;
+      });
+
+      await loader.loadRemotePlugin({
+        name: 'sri-plugin',
+        remoteUrl: 'https://cdn.example.com/plugins/sri-plugin.js',
+        exposedModule: 'SriPlugin',
+        integrity: 'sha384-abc',
+        retry: false
+      });
+
+      const script = appendSpy.calls.mostRecent().args[0] as HTMLScriptElement;
+      expect(script.integrity).toBe('sha384-abc');
+      expect(script.crossOrigin).toBe('anonymous');
+      expect(fetchSpy).not.toHaveBeenCalled();
+      delete (window as any)['SriPlugin'];
+    });
+
+    describe('with a detached signature', () => {
+      let privateKey: CryptoKey;
+
+      beforeEach(async () => {
+        const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        privateKey = keyPair.privateKey;
+        trustedSigningKeys.push({ keyId: 'release', jwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey) });
+      });
+
+      const sign = async (buffer: ArrayBuffer) =>
+        toBase64(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, buffer));
+
+      it('should evaluate the bundle when the signature matches a trusted key', async () => {
+        const result = await loader.loadRemotePlugin({
+          ...config,
+          signature: { value: await sign(source), keyId: 'release' }
+        });
+
+        expect(importSpy).toHaveBeenCalledWith('blob:verified');
+        expect(result.module).toBe(manifest);
+      });
+
+      it('should reject a signature over different content', async () => {
+        const signature = await sign(new TextEncoder().encode('other build').buffer);
+
+        await expectAsync(loader.loadRemotePlugin({ ...config, signature: { value: signature } }))
+          .toBeRejectedWith(jasmine.objectContaining({ code: 'INTEGRITY_FAILED' }));
+        expect(importSpy).not.toHaveBeenCalled();
+      });
+
+      it('should reject an unknown key id', async () => {
+        await expectAsync(
+          loader.loadRemotePlugin({ ...config, signature: { value: await sign(source), keyId: 'unknown' } })
+        ).toBeRejectedWith(jasmine.objectContaining({ code: 'INTEGRITY_FAILED' }));
+      });
+    });
+  });
+
+  describe('v1.5.0 Persistent cache', () => {
+    const manifest = { PluginManifest: { name: 'cached-plugin', version: '1.0.0' } };
+    const source = new TextEncoder().encode('export const CachedPlugin = {};').buffer;
+    const config: RemotePluginConfig = {
+      name: 'cached-plugin',
+      remoteUrl: 'https://cdn.example.com/plugins/cached-plugin.mjs',
+      exposedModule: 'CachedPlugin',
+      format: 'esm',
+      version: '1.0.0',
+      retry: false
+    };
+
+    let storage: MemoryRemotePluginStorage;
+    let fetchSpy: jasmine.Spy;
+
+    const createLoader = (maxAge: number, staleWhileRevalidate = 0) => {
+      loader = new RemotePluginLoader({ remoteCache: { storage, maxAge, staleWhileRevalidate } });
+      fetchSpy = spyOn(loader as any, 'fetchSource').and.resolveTo(source);
+      spyOn(loader as any, 'importModule').and.resolveTo({ CachedPlugin: manifest });
+      spyOn(loader as any, 'createObjectUrl').and.returnValue('blob:cached');
+      spyOn(loader as any, 'revokeObjectUrl');
+    };
+
+    const storeCopy = (ageMs: number) =>
+      storage.set(`${config.remoteUrl}@1.0.0`, {
+        key: `${config.remoteUrl}@1.0.0`,
+        url: config.remoteUrl,
+        version: '1.0.0',
+        storedAt: Date.now() - ageMs,
+        size: source.byteLength,
+        source
+      });
+
+    beforeEach(() => {
+      storage = new MemoryRemotePluginStorage();
+    });
+
+    it('should store fetched bundles keyed by URL and version', async () => {
+      createLoader(60000);
+
+      const result = await loader.loadRemotePlugin(config);
+      const stats = await loader.getPersistentCacheStats();
+
+      expect(result.fromPersistentCache).toBe(false);
+      expect(stats.entries.map(entry => entry.key)).toEqual([`${config.remoteUrl}@1.0.0`]);
+      expect(stats.bytes).toBe(source.byteLength);
+      expect(loader.getCacheStats()).toEqual(jasmine.objectContaining({ hits: 0, misses: 1, bytes: source.byteLength }));
+    });
+
+    it('should serve a fresh stored copy without the network', async () => {
+      await storeCopy(1000);
+      createLoader(60000);
+
+      const result = await loader.loadRemotePlugin(config);
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(result.fromPersistentCache).toBe(true);
+      expect(loader.getCacheStats().hits).toBe(1);
+    });
+
+    it('should not serve a copy stored for another version', async () => {
+      await storeCopy(1000);
+      createLoader(60000);
+
+      await loader.loadRemotePlugin({ ...config, version: '1.1.0' });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve a stale copy and revalidate it in the background', async () => {
+      await storeCopy(90000);
+      createLoader(60000, 60000);
+
+      const result = await loader.loadRemotePlugin(config);
+      await new Promise(resolve => setTimeout(resolve));
+
+      expect(result.fromPersistentCache).toBe(true);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect((await storage.get(`${config.remoteUrl}@1.0.0`))!.storedAt).toBeGreaterThan(Date.now() - 1000);
+    });
+
+    it('should refetch an expired copy and fall back to it when offline', async () => {
+      await storeCopy(200000);
+      createLoader(60000);
+      fetchSpy.and.rejectWith(new Error('Failed to load: Network error'));
+
+      const result = await loader.loadRemotePlugin(config);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(result.fromPersistentCache).toBe(true);
+    });
+
+    it('should replace a stored copy that fails the integrity check', async () => {
+      await storeCopy(1000);
+      createLoader(60000);
+      const other = new TextEncoder().encode('other build').buffer;
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', other));
+      fetchSpy.and.resolveTo(other);
+
+      const result = await loader.loadRemotePlugin({
+        ...config,
+        integrity: `sha256-${btoa(String.fromCharCode(...digest))}`
+      });
+
+      expect(result.fromPersistentCache).toBe(false);
+      expect((await storage.get(`${config.remoteUrl}@1.0.0`))!.size).toBe(other.byteLength);
+    });
+  });
+
+  describe('v1.5.0 Content Security Policy', () => {
+    const manifest = { PluginManifest: { name: 'csp-plugin', version: '1.0.0' } };
+    const config: RemotePluginConfig = {
+      name: 'csp-plugin',
+      remoteUrl: 'https://cdn.example.com/plugins/csp-plugin.js',
+      exposedModule: 'CspPlugin',
+      retry: false
+    };
+
+    let appended: HTMLScriptElement[];
+
+    beforeEach(() => {
+      appended = [];
+      spyOn(document.head, 'appendChild').and.callFake(<T extends Node>(node: T): T => {
+        const script = node as unknown as HTMLScriptElement;
+        appended.push(script);
+        (window as any)['CspPlugin'] = manifest;
+        setTimeout(() => script.dispatchEvent(new window.Event('load')));
+        return node;
+      });
+    });
+
+    afterEach(() => {
+      delete (window as any)['CspPlugin'];
+    });
+
+    it('should reject an origin that is not allowed before touching the DOM', async () => {
+      loader = new RemotePluginLoader({ remoteSecurity: { allowedOrigins: ['https://plugins.example.com'] } });
+      const importSpy = spyOn(loader as any, 'importModule');
+
+      await expectAsync(loader.loadRemotePlugin(config)).toBeRejectedWith(
+        jasmine.objectContaining({ code: 'ORIGIN_NOT_ALLOWED', url: config.remoteUrl })
+      );
+      await expectAsync(loader.loadRemotePlugin({ ...config, format: 'esm' })).toBeRejected();
+
+      expect(appended.length).toBe(0);
+      expect(importSpy).not.toHaveBeenCalled();
+    });
+
+    it('should allow wildcard subdomains and the page origin', async () => {
+      loader = new RemotePluginLoader({ remoteSecurity: { allowedOrigins: ['https://*.example.com', 'self'] } });
+
+      await loader.loadRemotePlugin(config);
+      expect(() => loader.assertAllowedOrigin({ ...config, remoteUrl: '/plugins/local.js' })).not.toThrow();
+      expect(() => loader.assertAllowedOrigin({ ...config, remoteUrl: 'https://example.com.evil.io/p.js' })).toThrow();
+      expect(() => loader.assertAllowedOrigin({ ...config, remoteUrl: 'http://cdn.example.com/p.js' })).toThrow();
+    });
+
+    it('should set the configured nonce on injected scripts', async () => {
+      loader = new RemotePluginLoader({ remoteSecurity: { nonce: () => 'r4nd0m' } });
+
+      await loader.loadRemotePlugin(config);
+
+      expect(appended[0].nonce).toBe('r4nd0m');
+    });
+
+    it('should fall back to the CSP_NONCE nonce', async () => {
+      loader = new RemotePluginLoader({}, undefined, 'from-token');
+
+      await loader.loadRemotePlugin(config);
+
+      expect(appended[0].nonce).toBe('from-token');
+    });
+
+    it('should create script URLs through the Trusted Types policy', async () => {
+      const policy = { createScriptURL: jasmine.createSpy('createScriptURL').and.callFake((url: string) => url) };
+      loader = new RemotePluginLoader({ remoteSecurity: { trustedTypesPolicy: policy } });
+
+      await loader.loadRemotePlugin(config);
+
+      expect(policy.createScriptURL).toHaveBeenCalledWith(config.remoteUrl);
+      expect(appended[0].src).toBe(config.remoteUrl);
+    });
+  });
+});
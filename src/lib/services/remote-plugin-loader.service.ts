@@ -1,10 +1,39 @@
-import { Injectable } from '@angular/core';
+import { Injectable, Inject, Optional, CSP_NONCE } from '@angular/core';
 import {
   RemotePluginConfig,
   RemotePluginLoadResult,
   RemotePluginError,
-  RemotePluginCacheEntry
+  RemotePluginCacheEntry,
+  RemotePluginStorage,
+  RemotePluginStoredBundleInfo,
+  RemotePluginTrustedTypesPolicy,
+  FederationContainer
 } from '../types/remote-plugin.types';
+import { PluginSystemConfig, PLUGIN_SYSTEM_CONFIG } from '../types/registration.types';
+import { PluginRemoteLoadAuditRecord } from '../types/audit.types';
+import { createDefaultRemotePluginStorage } from '../utils/remote-plugin-storage';
+import { PluginAuditLog } from './plugin-audit-log.service';
+
+// v1.5.0: SRI hash algorithms, weakest first
+const INTEGRITY_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512'
+};
+
+// v1.5.0: Persistent cache defaults
+const DEFAULT_CACHE_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// v1.5.0: window.trustedTypes where the browser supports Trusted Types
+interface TrustedTypesFactory {
+  createPolicy(name: string, rules: { createScriptURL(url: string): string }): RemotePluginTrustedTypesPolicy;
+}
+
+// v1.5.0: Where the verified bytes of a bundle came from
+interface FetchedBundle {
+  size: number;
+  fromPersistentCache: boolean;
+}
 
 /**
  * Service for loading plugins from remote URLs
@@ -14,20 +43,63 @@ import {
 export class RemotePluginLoader {
   private readonly cache = new Map<string, RemotePluginCacheEntry>();
   private readonly loadingPromises = new Map<string, Promise<RemotePluginLoadResult>>();
+  private readonly esmImportCounts = new Map<string, number>(); // v1.5.0: Cache-busting for re-imports
+  private readonly federationContainers = new Map<string, Promise<FederationContainer>>(); // v1.5.0: By remoteEntry URL
+  private readonly federationShareScopes = new Map<string, Record<string, unknown>>(); // v1.5.0: Used without a webpack host
+  private readonly pluginCacheKeys = new Map<string, string>(); // v1.5.0: Plugin name → cache key
+  private readonly fetchedBundles = new Map<string, FetchedBundle>(); // v1.5.0: By remote URL, until cached
+  private readonly storage?: RemotePluginStorage; // v1.5.0: Persistent cache, when configured
+  private persistentHits = 0;
+  private persistentMisses = 0;
+  private trustedTypesPolicy?: RemotePluginTrustedTypesPolicy | null; // v1.5.0: Created on first script, null if unsupported
+
+  constructor(
+    @Optional() @Inject(PLUGIN_SYSTEM_CONFIG) private readonly config?: PluginSystemConfig,
+    @Optional() private readonly auditLog?: PluginAuditLog,
+    @Optional() @Inject(CSP_NONCE) private readonly cspNonce?: string | null
+  ) {
+    if (config?.remoteCache) {
+      this.storage = config.remoteCache.storage || createDefaultRemotePluginStorage();
+    }
+  }
 
   /**
    * Load a plugin from a remote URL
+   * v1.5.0: `bypassCache` discards the cached script and fetches it again
    */
-  async loadRemotePlugin(config: RemotePluginConfig): Promise<RemotePluginLoadResult> {
+  async loadRemotePlugin(
+    config: RemotePluginConfig,
+    options: { bypassCache?: boolean } = {}
+  ): Promise<RemotePluginLoadResult> {
     // Check if already loading
     const existingPromise = this.loadingPromises.get(config.name);
     if (existingPromise) {
       return existingPromise;
     }
 
+    // v1.5.0: Unknown hosts are rejected before anything is fetched or added to the DOM
+    try {
+      this.assertAllowedOrigin(config);
+    } catch (error) {
+      this.auditLoad(config, { success: false, error: (error as Error).message });
+      throw error;
+    }
+
     // Check cache first
-    const cached = this.cache.get(config.remoteUrl);
+    const cacheKey = this.getCacheKey(config);
+
+    // v1.5.0: A new version of the plugin replaces the cached one
+    this.releasePreviousVersion(config, cacheKey);
+
+    // Other plugins sharing the entry keep their reference and get the fresh copy
+    if (options.bypassCache) {
+      this.removeCacheEntry(cacheKey, true);
+    }
+
+    const cached = this.cache.get(cacheKey);
     if (cached) {
+      this.pluginCacheKeys.set(config.name, cacheKey);
+      this.auditLoad(config, { success: true, fromCache: true, loadTime: 0 });
       return {
         module: cached.module,
         loadTime: 0,
@@ -41,45 +113,219 @@ export class RemotePluginLoader {
 
     try {
       const result = await loadPromise;
+      this.pluginCacheKeys.set(config.name, cacheKey);
+      this.auditLoad(config, {
+        success: true,
+        fromCache: result.fromCache,
+        fromPersistentCache: result.fromPersistentCache,
+        loadTime: result.loadTime
+      });
       return result;
+    } catch (error) {
+      this.auditLoad(config, { success: false, error: (error as Error)?.message || String(error) });
+      throw error;
     } finally {
       this.loadingPromises.delete(config.name);
     }
   }
 
+  // v1.5.0: Audit trail of remote loads
+  private auditLoad(
+    config: RemotePluginConfig,
+    outcome: Pick<PluginRemoteLoadAuditRecord, 'success' | 'fromCache' | 'fromPersistentCache' | 'loadTime' | 'error'>
+  ): void {
+    this.auditLog?.record({
+      type: 'remote-load',
+      pluginName: config.name,
+      url: config.remoteUrl,
+      version: config.version,
+      ...outcome
+    });
+  }
+
+  /**
+   * v1.5.0: Throw ORIGIN_NOT_ALLOWED unless remoteUrl matches remoteSecurity.allowedOrigins
+   * Also used for sandboxed plugins, which never go through loadRemotePlugin()
+   */
+  assertAllowedOrigin(config: RemotePluginConfig): void {
+    if (this.isOriginAllowed(config.remoteUrl)) {
+      return;
+    }
+
+    const error: RemotePluginError = Object.assign(
+      new Error(`Remote plugin '${config.name}' is not loaded: ${config.remoteUrl} is not in remoteSecurity.allowedOrigins`),
+      {
+        code: 'ORIGIN_NOT_ALLOWED' as const,
+        url: config.remoteUrl,
+        pluginName: config.name
+      }
+    );
+    throw error;
+  }
+
+  /**
+   * v1.5.0: Nonce for scripts added to the page or a sandboxed plugin's iframe: remoteSecurity.nonce, then Angular's CSP_NONCE
+   */
+  getScriptNonce(): string | null | undefined {
+    const nonce = this.config?.remoteSecurity?.nonce;
+    return (typeof nonce === 'function' ? nonce() : nonce) ?? this.cspNonce;
+  }
+
   /**
    * Unload a remote plugin and clean up resources
+   * v1.5.0: By plugin name, only that plugin's reference is released; the bundle is
+   * unloaded once no other plugin uses it. By URL, the bundle is unloaded unconditionally.
    */
   unloadRemotePlugin(urlOrName: string): void {
     // Find by URL or name
-    let entry: RemotePluginCacheEntry | undefined;
+    let keys: string[];
 
     if (urlOrName.startsWith('http://') || urlOrName.startsWith('https://')) {
-      entry = this.cache.get(urlOrName);
-    } else {
-      // Search by plugin name in cache
-      for (const [url, cacheEntry] of this.cache.entries()) {
-        if (url.includes(urlOrName)) {
-          entry = cacheEntry;
-          break;
+      // v1.5.0: Federation entries are keyed per exposed module but share the remoteEntry URL
+      keys = Array.from(this.cache.entries())
+        .filter(([key, entry]) => key === urlOrName || entry.url === urlOrName)
+        .map(([key]) => key);
+
+      for (const [name, key] of this.pluginCacheKeys) {
+        if (keys.includes(key)) {
+          this.pluginCacheKeys.delete(name);
         }
       }
+    } else {
+      const key = this.pluginCacheKeys.get(urlOrName);
+      this.pluginCacheKeys.delete(urlOrName);
+      keys = key && this.getPluginsUsing(key).length === 0 ? [key] : [];
+    }
+
+    for (const key of keys) {
+      this.removeCacheEntry(key);
+    }
+  }
+
+  /**
+   * v1.5.0: URL of the bundle a plugin was loaded from
+   */
+  getPluginUrl(pluginName: string): string | undefined {
+    const key = this.pluginCacheKeys.get(pluginName);
+    return key ? this.cache.get(key)?.url : undefined;
+  }
+
+  /**
+   * Clear all cached remote plugins
+   */
+  clearCache(): void {
+    for (const [url] of this.cache.entries()) {
+      this.unloadRemotePlugin(url);
+    }
+    this.pluginCacheKeys.clear();
+  }
+
+  /**
+   * Get cache statistics
+   * v1.5.0: Each entry lists the plugins using it; `bytes` counts bundles fetched by the loader,
+   * `hits`/`misses` count persistent cache lookups
+   */
+  getCacheStats(): {
+    size: number;
+    bytes: number;
+    hits: number;
+    misses: number;
+    entries: Array<{ url: string; loadedAt: Date; plugins: string[]; size?: number }>;
+  } {
+    const entries = Array.from(this.cache.entries());
+
+    return {
+      size: this.cache.size,
+      bytes: entries.reduce((total, [, entry]) => total + (entry.size || 0), 0),
+      hits: this.persistentHits,
+      misses: this.persistentMisses,
+      entries: entries.map(([key, entry]) => ({
+        url: entry.url,
+        loadedAt: entry.loadedAt,
+        plugins: this.getPluginsUsing(key),
+        size: entry.size
+      }))
+    };
+  }
+
+  /**
+   * v1.5.0: Contents of the persistent cache (empty when remoteCache is not configured)
+   */
+  async getPersistentCacheStats(): Promise<{ size: number; bytes: number; entries: RemotePluginStoredBundleInfo[] }> {
+    const entries = this.storage ? await this.storage.list() : [];
+
+    return {
+      size: entries.length,
+      bytes: entries.reduce((total, entry) => total + entry.size, 0),
+      entries
+    };
+  }
+
+  /**
+   * v1.5.0: Remove bundles from the persistent cache, for one URL or all of them
+   */
+  async clearPersistentCache(url?: string): Promise<void> {
+    if (!this.storage) {
+      return;
     }
 
+    for (const entry of await this.storage.list()) {
+      if (!url || entry.url === url) {
+        await this.storage.delete(entry.key);
+      }
+    }
+  }
+
+  private releasePreviousVersion(config: RemotePluginConfig, cacheKey: string): void {
+    const previousKey = this.pluginCacheKeys.get(config.name);
+    if (!previousKey || previousKey === cacheKey) {
+      return;
+    }
+
+    this.pluginCacheKeys.delete(config.name);
+
+    // Same URL: the old script must go, or its global would be picked up again
+    const previous = this.cache.get(previousKey);
+    this.removeCacheEntry(previousKey, previous?.url === config.remoteUrl);
+  }
+
+  private getPluginsUsing(cacheKey: string): string[] {
+    return Array.from(this.pluginCacheKeys.entries())
+      .filter(([, key]) => key === cacheKey)
+      .map(([name]) => name);
+  }
+
+  private removeCacheEntry(key: string, discardBundle = false): void {
+    const entry = this.cache.get(key);
     if (!entry) {
       return;
     }
 
+    // Clear from cache
+    this.cache.delete(key);
+
+    // v1.5.0: Keep the bundle while other exports of it are still cached
+    const inUse = Array.from(this.cache.values()).some(other => other.url === entry.url);
+    if (inUse && !discardBundle) {
+      return;
+    }
+
+    if (entry.format === 'federation') {
+      this.federationContainers.delete(entry.url);
+    }
+
     // Remove script element from DOM
     if (entry.scriptElement && entry.scriptElement.parentNode) {
       entry.scriptElement.parentNode.removeChild(entry.scriptElement);
     }
 
-    // Clear from cache
-    this.cache.delete(entry.url);
+    // v1.5.0: ES modules never touch window
+    if (entry.format === 'esm') {
+      return;
+    }
 
     // Try to delete the global variable (best effort)
-    const globalVar = this.extractGlobalVarName(entry.url);
+    const globalVar = entry.globalName || this.extractGlobalVarName(entry.url);
     if (globalVar && (window as any)[globalVar]) {
       try {
         delete (window as any)[globalVar];
@@ -90,26 +336,10 @@ export class RemotePluginLoader {
     }
   }
 
-  /**
-   * Clear all cached remote plugins
-   */
-  clearCache(): void {
-    for (const [url] of this.cache.entries()) {
-      this.unloadRemotePlugin(url);
-    }
-  }
-
-  /**
-   * Get cache statistics
-   */
-  getCacheStats(): { size: number; entries: Array<{ url: string; loadedAt: Date }> } {
-    return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.entries()).map(([url, entry]) => ({
-        url,
-        loadedAt: entry.loadedAt
-      }))
-    };
+  // v1.5.0: One bundle can hold several plugins, so entries are keyed per exposed module
+  // v1.5.0: One entry per plugin version
+  private getCacheKey(config: RemotePluginConfig): string {
+    return `${config.name}@${config.version || ''}`;
   }
 
   private async executeLoad(config: RemotePluginConfig): Promise<RemotePluginLoadResult> {
@@ -125,36 +355,59 @@ export class RemotePluginLoader {
       attempts++;
 
       try {
-        const module = await this.loadScript(
-          config.remoteUrl,
-          config.exposedModule,
-          timeout
-        );
+        if (config.format === 'esm') {
+          return await this.loadEsmPlugin(config, timeout, startTime);
+        }
+
+        if (config.format === 'federation') {
+          return await this.loadFederatedPlugin(config, timeout, startTime);
+        }
+
+        // v1.5.0: Signed or persistently cached bundles are fetched and verified before the script runs
+        const verifiedUrl = this.requiresVerifiedFetch(config, false) ? await this.fetchVerified(config, timeout) : undefined;
+
+        let module: any;
+        try {
+          module = await this.loadScript(config.remoteUrl, config.exposedModule, timeout, {
+            source: verifiedUrl,
+            integrity: verifiedUrl ? undefined : config.integrity
+          });
+        } finally {
+          this.revokeObjectUrl(verifiedUrl);
+        }
 
         const loadTime = Date.now() - startTime;
 
         // Cache the result
-        const scriptElement = document.querySelector(
-          `script[src="${config.remoteUrl}"]`
-        ) as HTMLScriptElement;
+        const scriptElement = this.findScriptElement(config.remoteUrl);
+
+        const fetched = this.takeFetchedBundle(config.remoteUrl);
 
         if (scriptElement) {
-          this.cache.set(config.remoteUrl, {
+          this.cache.set(this.getCacheKey(config), {
             url: config.remoteUrl,
             module,
             loadedAt: new Date(),
-            scriptElement
+            format: 'global',
+            scriptElement,
+            size: fetched?.size
           });
         }
 
         return {
           module,
           loadTime,
-          fromCache: false
+          fromCache: false,
+          fromPersistentCache: fetched?.fromPersistentCache
         };
       } catch (error) {
         lastError = error as Error;
 
+        // v1.5.0: A tampered bundle will not fix itself
+        if (this.classifyError(lastError) === 'INTEGRITY_FAILED') {
+          break;
+        }
+
         if (attempts < retryAttempts && shouldRetry) {
           // Wait before retry (exponential backoff)
           await this.delay(Math.min(1000 * Math.pow(2, attempts - 1), 5000));
@@ -175,10 +428,453 @@ export class RemotePluginLoader {
     throw pluginError;
   }
 
-  private loadScript(url: string, exposedModule: string, timeout: number): Promise<any> {
+  // v1.5.0: Load an ES module bundle with dynamic import() and pick the named export
+  private async loadEsmPlugin(
+    config: RemotePluginConfig,
+    timeout: number,
+    startTime: number
+  ): Promise<RemotePluginLoadResult> {
+    const url = config.remoteUrl;
+
+    // Browsers keep imported modules in their module map; a new URL forces a fresh fetch after eviction
+    const importCount = this.esmImportCounts.get(url) || 0;
+    const verifiedUrl = this.requiresVerifiedFetch(config, true) ? await this.fetchVerified(config, timeout) : undefined;
+    const importUrl =
+      verifiedUrl || (importCount === 0 ? url : `${url}${url.includes('?') ? '&' : '?'}v=${importCount}`);
+
+    let timeoutId: any;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error(`Timeout importing module from ${url}`)), timeout);
+    });
+
+    const importPromise = this.importModule(importUrl).catch(error => {
+      throw new Error(`Failed to load module from ${url}: ${error?.message || 'Network error'}`);
+    });
+
+    let namespace: Record<string, any>;
+    try {
+      namespace = await Promise.race([importPromise, timeoutPromise]);
+    } finally {
+      clearTimeout(timeoutId);
+      this.revokeObjectUrl(verifiedUrl);
+    }
+
+    this.esmImportCounts.set(url, importCount + 1);
+
+    const module = namespace?.[config.exposedModule];
+    if (!module) {
+      throw new Error(`Export '${config.exposedModule}' not found in module ${url}`);
+    }
+
+    const fetched = this.takeFetchedBundle(url);
+
+    this.cache.set(this.getCacheKey(config), {
+      url,
+      module,
+      loadedAt: new Date(),
+      format: 'esm',
+      size: fetched?.size
+    });
+
+    return {
+      module,
+      loadTime: Date.now() - startTime,
+      fromCache: false,
+      fromPersistentCache: fetched?.fromPersistentCache
+    };
+  }
+
+  // v1.5.0: Load an exposed module from a Module Federation container (remoteEntry.js)
+  private async loadFederatedPlugin(
+    config: RemotePluginConfig,
+    timeout: number,
+    startTime: number
+  ): Promise<RemotePluginLoadResult> {
+    const url = config.remoteUrl;
+    const federation = config.federation || {};
+    const remoteName = federation.remoteName || config.name;
+
+    let containerPromise = this.federationContainers.get(url);
+    if (!containerPromise) {
+      containerPromise = this.initFederationContainer(config, remoteName, timeout);
+      this.federationContainers.set(url, containerPromise);
+    }
+
+    let container: FederationContainer;
+    try {
+      container = await containerPromise;
+    } catch (error) {
+      this.federationContainers.delete(url);
+      throw error;
+    }
+
+    let factory: () => any;
+    try {
+      factory = await container.get(config.exposedModule);
+    } catch (error) {
+      throw new Error(`Exposed module '${config.exposedModule}' not found in ${remoteName}: ${(error as Error)?.message}`);
+    }
+
+    const module = factory();
+    if (!module?.PluginManifest) {
+      throw new Error(`Exposed module '${config.exposedModule}' from ${remoteName} does not export PluginManifest`);
+    }
+
+    // Only the load that fetched the container sees its fetch details
+    const fetched = this.takeFetchedBundle(url);
+
+    this.cache.set(this.getCacheKey(config), {
+      url,
+      module,
+      loadedAt: new Date(),
+      format: 'federation',
+      globalName: federation.type === 'module' ? undefined : remoteName,
+      scriptElement: this.findScriptElement(url),
+      size: fetched?.size
+    });
+
+    return {
+      module,
+      loadTime: Date.now() - startTime,
+      fromCache: false,
+      fromPersistentCache: fetched?.fromPersistentCache
+    };
+  }
+
+  private async initFederationContainer(
+    config: RemotePluginConfig,
+    remoteName: string,
+    timeout: number
+  ): Promise<FederationContainer> {
+    const url = config.remoteUrl;
+    const isModule = config.federation?.type === 'module';
+    const shareScopeName = config.federation?.shareScope || 'default';
+
+    const verifiedUrl = this.requiresVerifiedFetch(config, isModule)
+      ? await this.fetchVerified(config, timeout)
+      : undefined;
+
+    let container: FederationContainer | undefined;
+    try {
+      container = isModule
+        ? await this.importModule(verifiedUrl || url)
+        : await this.loadScript(url, remoteName, timeout, {
+            source: verifiedUrl,
+            integrity: verifiedUrl ? undefined : config.integrity
+          });
+    } finally {
+      this.revokeObjectUrl(verifiedUrl);
+    }
+
+    if (typeof container?.init !== 'function' || typeof container?.get !== 'function') {
+      throw new Error(`Federation container '${remoteName}' not found after loading ${url}`);
+    }
+
+    // Share dependencies with the host: webpack hosts provide their own share scope
+    const webpackGlobals = globalThis as any;
+    let shareScope: Record<string, unknown>;
+    if (typeof webpackGlobals.__webpack_init_sharing__ === 'function') {
+      await webpackGlobals.__webpack_init_sharing__(shareScopeName);
+      shareScope = webpackGlobals.__webpack_share_scopes__[shareScopeName];
+    } else {
+      shareScope = this.federationShareScopes.get(shareScopeName) || {};
+      this.federationShareScopes.set(shareScopeName, shareScope);
+    }
+
+    await container.init(shareScope);
+
+    return container;
+  }
+
+  // Separate method so bundlers leave the runtime URL alone and tests can stub it
+  private importModule(url: string): Promise<Record<string, any>> {
+    return import(/* webpackIgnore: true */ /* @vite-ignore */ url);
+  }
+
+  // v1.5.0: Verification requires the bytes: always for signatures, for integrity only when not loaded by a <script> tag.
+  // Persistently cached bundles are always evaluated from their bytes.
+  private requiresVerifiedFetch(config: RemotePluginConfig, isModule: boolean): boolean {
+    return !!this.storage || !!config.signature || (!!config.integrity && isModule);
+  }
+
+  /**
+   * v1.5.0: Fetch the bundle, check integrity and signature, and return an object URL of the verified bytes
+   * Evaluating the object URL guarantees the code that runs is the code that was checked
+   */
+  private async fetchVerified(config: RemotePluginConfig, timeout: number): Promise<string> {
+    const stored = await this.readStoredBundle(config);
+
+    if (stored) {
+      try {
+        await this.verifySource(stored.source, config, timeout);
+        this.persistentHits++;
+        this.fetchedBundles.set(config.remoteUrl, { size: stored.source.byteLength, fromPersistentCache: true });
+
+        if (stored.stale) {
+          void this.revalidate(config, timeout);
+        }
+
+        return this.createObjectUrl(stored.source);
+      } catch {
+        // A stored copy that no longer verifies (e.g. a new integrity hash) is replaced from the network
+        await this.deleteStoredBundle(config);
+      }
+    }
+
+    let source: ArrayBuffer;
+    try {
+      source = await this.fetchSource(config.remoteUrl, timeout);
+    } catch (error) {
+      // Offline: fall back to an expired copy rather than failing
+      const fallback = await this.readStoredBundle(config, true);
+      if (!fallback) {
+        throw error;
+      }
+      await this.verifySource(fallback.source, config, timeout);
+      this.persistentHits++;
+      this.fetchedBundles.set(config.remoteUrl, { size: fallback.source.byteLength, fromPersistentCache: true });
+      return this.createObjectUrl(fallback.source);
+    }
+
+    await this.verifySource(source, config, timeout);
+
+    if (this.storage) {
+      this.persistentMisses++;
+      await this.storeBundle(config, source);
+    }
+
+    this.fetchedBundles.set(config.remoteUrl, { size: source.byteLength, fromPersistentCache: false });
+
+    return this.createObjectUrl(source);
+  }
+
+  private async verifySource(source: ArrayBuffer, config: RemotePluginConfig, timeout: number): Promise<void> {
+    if (config.integrity) {
+      await this.verifyIntegrity(source, config.integrity, config.remoteUrl);
+    }
+
+    if (config.signature) {
+      await this.verifySignature(source, config, timeout);
+    }
+  }
+
+  private takeFetchedBundle(url: string): FetchedBundle | undefined {
+    const fetched = this.fetchedBundles.get(url);
+    this.fetchedBundles.delete(url);
+    return fetched;
+  }
+
+  // v1.5.0: Persistent cache entries are keyed by URL + version so a version bump never serves old bytes
+  private getStorageKey(config: RemotePluginConfig): string {
+    return `${config.remoteUrl}@${config.version || ''}`;
+  }
+
+  /**
+   * Read a stored bundle that is fresh or within the stale-while-revalidate window
+   * `ignoreAge` returns any stored copy (network fallback)
+   */
+  private async readStoredBundle(
+    config: RemotePluginConfig,
+    ignoreAge = false
+  ): Promise<{ source: ArrayBuffer; stale: boolean } | undefined> {
+    if (!this.storage) {
+      return undefined;
+    }
+
+    let bundle;
+    try {
+      bundle = await this.storage.get(this.getStorageKey(config));
+    } catch {
+      // Storage can be unavailable (private mode, quota); the network still works
+      return undefined;
+    }
+
+    if (!bundle) {
+      return undefined;
+    }
+
+    const maxAge = this.config?.remoteCache?.maxAge ?? DEFAULT_CACHE_MAX_AGE;
+    const staleWhileRevalidate = this.config?.remoteCache?.staleWhileRevalidate ?? 0;
+    const age = Date.now() - bundle.storedAt;
+
+    if (ignoreAge || age <= maxAge) {
+      return { source: bundle.source, stale: false };
+    }
+
+    return age <= maxAge + staleWhileRevalidate ? { source: bundle.source, stale: true } : undefined;
+  }
+
+  private async storeBundle(config: RemotePluginConfig, source: ArrayBuffer): Promise<void> {
+    try {
+      await this.storage!.set(this.getStorageKey(config), {
+        key: this.getStorageKey(config),
+        url: config.remoteUrl,
+        version: config.version,
+        storedAt: Date.now(),
+        size: source.byteLength,
+        source
+      });
+    } catch (error) {
+      console.warn(`Failed to persist bundle ${config.remoteUrl}:`, error);
+    }
+  }
+
+  private async deleteStoredBundle(config: RemotePluginConfig): Promise<void> {
+    try {
+      await this.storage?.delete(this.getStorageKey(config));
+    } catch {
+      // Nothing to clean up if storage is unavailable
+    }
+  }
+
+  // v1.5.0: Refresh a stale bundle for the next load; the running copy is left alone
+  private async revalidate(config: RemotePluginConfig, timeout: number): Promise<void> {
+    try {
+      const source = await this.fetchSource(config.remoteUrl, timeout);
+      await this.verifySource(source, config, timeout);
+      await this.storeBundle(config, source);
+    } catch (error) {
+      console.warn(`Failed to revalidate ${config.remoteUrl}:`, error);
+    }
+  }
+
+  private async fetchSource(url: string, timeout: number): Promise<ArrayBuffer> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal, credentials: 'omit' });
+      if (!response.ok) {
+        throw new Error(`Failed to load ${url}: HTTP ${response.status}`);
+      }
+      return await response.arrayBuffer();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Timeout fetching ${url}`);
+      }
+      throw new Error(`Failed to load ${url}: ${(error as Error)?.message || 'Network error'}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async verifyIntegrity(source: ArrayBuffer, integrity: string, url: string): Promise<void> {
+    // As in the SRI spec, only hashes of the strongest listed algorithm are considered
+    const hashes = integrity
+      .trim()
+      .split(/\s+/)
+      .map(token => /^(sha256|sha384|sha512)-([A-Za-z0-9+/=_-]+)/.exec(token))
+      .filter((match): match is RegExpExecArray => !!match);
+
+    if (hashes.length === 0) {
+      throw new Error(`Integrity check failed for ${url}: no supported hash in '${integrity}'`);
+    }
+
+    const algorithms = Object.keys(INTEGRITY_ALGORITHMS);
+    const strongest = hashes.reduce((best, match) =>
+      algorithms.indexOf(match[1]) > algorithms.indexOf(best) ? match[1] : best, hashes[0][1]);
+
+    const digest = this.toBase64(await crypto.subtle.digest(INTEGRITY_ALGORITHMS[strongest], source));
+    const matches = hashes.some(match => match[1] === strongest && match[2] === digest);
+
+    if (!matches) {
+      throw new Error(`Integrity check failed for ${url}: ${strongest} digest does not match`);
+    }
+  }
+
+  private async verifySignature(source: ArrayBuffer, config: RemotePluginConfig, timeout: number): Promise<void> {
+    const signature = config.signature!;
+    const url = config.remoteUrl;
+
+    const keys = (this.config?.trustedSigningKeys || []).filter(
+      key => !signature.keyId || key.keyId === signature.keyId
+    );
+    if (keys.length === 0) {
+      const keyName = signature.keyId ? ` '${signature.keyId}'` : '';
+      throw new Error(`Integrity check failed for ${url}: no trusted signing key${keyName} configured`);
+    }
+
+    let encoded = signature.value;
+    if (!encoded && signature.url) {
+      encoded = new TextDecoder().decode(await this.fetchSource(signature.url, timeout));
+    }
+    if (!encoded) {
+      throw new Error(`Integrity check failed for ${url}: signature has neither value nor url`);
+    }
+
+    const signatureBytes = this.fromBase64(encoded.trim());
+
+    for (const key of keys) {
+      const algorithm = this.getSigningAlgorithm(key.jwk);
+      try {
+        const publicKey = await crypto.subtle.importKey('jwk', key.jwk, algorithm.importParams, false, ['verify']);
+        if (await crypto.subtle.verify(algorithm.verifyParams, publicKey, signatureBytes, source)) {
+          return;
+        }
+      } catch {
+        // Unusable key: try the next one
+      }
+    }
+
+    throw new Error(`Integrity check failed for ${url}: signature does not match any trusted key`);
+  }
+
+  private getSigningAlgorithm(jwk: JsonWebKey): {
+    importParams: AlgorithmIdentifier | EcKeyImportParams | RsaHashedImportParams;
+    verifyParams: AlgorithmIdentifier | EcdsaParams;
+  } {
+    if (jwk.kty === 'EC') {
+      const hash = { 'P-384': 'SHA-384', 'P-521': 'SHA-512' }[jwk.crv as string] || 'SHA-256';
+      return {
+        importParams: { name: 'ECDSA', namedCurve: jwk.crv as string },
+        verifyParams: { name: 'ECDSA', hash }
+      };
+    }
+
+    if (jwk.kty === 'RSA') {
+      const hash = { RS384: 'SHA-384', RS512: 'SHA-512' }[jwk.alg as string] || 'SHA-256';
+      return {
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash },
+        verifyParams: { name: 'RSASSA-PKCS1-v1_5' }
+      };
+    }
+
+    return { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } };
+  }
+
+  private createObjectUrl(source: ArrayBuffer): string {
+    return URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  }
+
+  private revokeObjectUrl(url?: string): void {
+    if (url) {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private toBase64(buffer: ArrayBuffer): string {
+    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+  }
+
+  private fromBase64(value: string): Uint8Array {
+    // Accept base64url as well
+    const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(normalized), char => char.charCodeAt(0));
+  }
+
+  private findScriptElement(url: string): HTMLScriptElement | undefined {
+    return document.querySelector<HTMLScriptElement>(`script[src="${url}"], script[data-remote-url="${url}"]`) ?? undefined;
+  }
+
+  private loadScript(
+    url: string,
+    exposedModule: string,
+    timeout: number,
+    options: { source?: string; integrity?: string } = {} // v1.5.0: Verified object URL / SRI hash
+  ): Promise<any> {
     return new Promise((resolve, reject) => {
       // Check if script already exists
-      const existing = document.querySelector(`script[src="${url}"]`);
+      const existing = this.findScriptElement(url);
       if (existing) {
         // Script already loaded, try to get the module
         const module = this.getModuleFromWindow(exposedModule);
@@ -189,9 +885,21 @@ export class RemotePluginLoader {
       }
 
       const script = document.createElement('script');
-      script.src = url;
+      script.src = this.createScriptUrl(options.source || url);
       script.type = 'text/javascript';
       script.async = true;
+      script.dataset['remoteUrl'] = url;
+
+      // v1.5.0: Strict CSP only runs scripts carrying the page's nonce
+      const nonce = this.getScriptNonce();
+      if (nonce) {
+        script.nonce = nonce;
+      }
+
+      if (options.integrity) {
+        script.integrity = options.integrity;
+        script.crossOrigin = 'anonymous';
+      }
 
       let timeoutId: any;
       let resolved = false;
@@ -253,6 +961,68 @@ export class RemotePluginLoader {
     });
   }
 
+  // v1.5.0: 'self', exact origins and 'scheme://*.domain' wildcards; relative URLs resolve against the document
+  private isOriginAllowed(url: string): boolean {
+    const allowedOrigins = this.config?.remoteSecurity?.allowedOrigins;
+    if (!allowedOrigins) {
+      return true;
+    }
+
+    let origin: string;
+    try {
+      origin = new URL(url, document.baseURI).origin;
+    } catch {
+      return false;
+    }
+
+    return allowedOrigins.some(pattern => {
+      if (pattern === 'self') {
+        return origin === new URL(document.baseURI).origin;
+      }
+
+      const wildcard = pattern.indexOf('://*.');
+      if (wildcard !== -1) {
+        const scheme = pattern.slice(0, wildcard + 3);
+        return origin.startsWith(scheme) && origin.slice(scheme.length).endsWith(pattern.slice(wildcard + 4));
+      }
+
+      return origin === pattern.replace(/\/$/, '');
+    });
+  }
+
+  // v1.5.0: With Trusted Types enforced, script.src only accepts TrustedScriptURL values
+  private createScriptUrl(url: string): string {
+    const policy = this.getTrustedTypesPolicy();
+    return policy ? (policy.createScriptURL(url) as string) : url;
+  }
+
+  private getTrustedTypesPolicy(): RemotePluginTrustedTypesPolicy | null {
+    const configured = this.config?.remoteSecurity?.trustedTypesPolicy;
+    if (typeof configured === 'object') {
+      return configured;
+    }
+    if (!configured) {
+      return null;
+    }
+
+    if (this.trustedTypesPolicy === undefined) {
+      const factory = (globalThis as { trustedTypes?: TrustedTypesFactory }).trustedTypes;
+      this.trustedTypesPolicy = factory
+        ? factory.createPolicy(configured, {
+            // Object URLs are only created by the loader, from bytes it has verified
+            createScriptURL: url => {
+              if (!url.startsWith('blob:') && !this.isOriginAllowed(url)) {
+                throw new Error(`Script URL ${url} is not in remoteSecurity.allowedOrigins`);
+              }
+              return url;
+            }
+          })
+        : null;
+    }
+
+    return this.trustedTypesPolicy;
+  }
+
   private getModuleFromWindow(moduleName: string): any {
     // Support nested paths like 'MyApp.Plugins.Analytics'
     const parts = moduleName.split('.');
@@ -278,6 +1048,9 @@ export class RemotePluginLoader {
   private classifyError(error: Error): RemotePluginError['code'] {
     const message = error.message.toLowerCase();
 
+    if (message.includes('integrity check failed')) {
+      return 'INTEGRITY_FAILED';
+    }
     if (message.includes('timeout')) {
       return 'TIMEOUT';
     }
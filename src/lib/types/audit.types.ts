@@ -0,0 +1,103 @@
+import type { PluginState } from './plugin.types';
+
+/**
+ * Types for the plugin audit log
+ * v1.5.0: Structured records of which plugin touched which host service, event or bundle, and when
+ */
+
+interface PluginAuditRecordBase {
+  /** Increasing sequence number, unique per PluginAuditLog */
+  id: number;
+  timestamp: Date;
+  pluginName: string;
+}
+
+// context.getService(), context.hostInjector and DI in plugin components; `granted` is false when
+// allowedServices or the permission policy denied it
+export interface PluginServiceAuditRecord extends PluginAuditRecordBase {
+  type: 'service';
+  service: string;
+  granted: boolean;
+  found: boolean;
+}
+
+// context.emit()
+export interface PluginEventAuditRecord extends PluginAuditRecordBase {
+  type: 'event';
+  topic: string;
+}
+
+// A capability granted or denied after the plugin loaded, e.g. by the user's consent
+export interface PluginPermissionAuditRecord extends PluginAuditRecordBase {
+  type: 'permission';
+  capability: string;
+  granted: boolean;
+  source: 'consent';
+}
+
+// Every state transition reported by PluginRegistry
+export interface PluginStateAuditRecord extends PluginAuditRecordBase {
+  type: 'state';
+  from?: PluginState;
+  to: PluginState;
+  error?: string;
+}
+
+// Every RemotePluginLoader.loadRemotePlugin() call
+export interface PluginRemoteLoadAuditRecord extends PluginAuditRecordBase {
+  type: 'remote-load';
+  url: string;
+  version?: string;
+  success: boolean;
+  fromCache?: boolean;
+  fromPersistentCache?: boolean;
+  loadTime?: number;
+  error?: string;
+}
+
+export type PluginAuditRecord =
+  | PluginServiceAuditRecord
+  | PluginEventAuditRecord
+  | PluginPermissionAuditRecord
+  | PluginStateAuditRecord
+  | PluginRemoteLoadAuditRecord;
+
+export type PluginAuditRecordType = PluginAuditRecord['type'];
+
+// A record as reported by its source; PluginAuditLog assigns `id` and `timestamp`
+export type PluginAuditEntry = PluginAuditRecord extends infer Record
+  ? Record extends PluginAuditRecord
+    ? Omit<Record, 'id' | 'timestamp'>
+    : never
+  : never;
+
+/**
+ * Receives every audit record, e.g. to print it or export it to a compliance store
+ * write() must not throw; errors are caught and logged so plugins keep working.
+ */
+export interface PluginAuditSink {
+  write(record: PluginAuditRecord): void;
+}
+
+export interface PluginAuditQuery {
+  pluginName?: string;
+  type?: PluginAuditRecordType;
+  /** Inclusive lower bound */
+  from?: Date | number;
+  /** Inclusive upper bound */
+  to?: Date | number;
+}
+
+export interface PluginAuditConfig {
+  /**
+   * Where records go besides the in-memory buffer that query() reads
+   * Example: [new ConsoleAuditSink(), { write: record => exporter.push(record) }]
+   */
+  sinks?: PluginAuditSink[];
+
+  /**
+   * Records kept in memory for PluginAuditLog.query(); the oldest are dropped first
+   * Default: 1000
+   */
+  bufferSize?: number;
+}
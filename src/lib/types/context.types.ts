@@ -1,17 +1,67 @@
 import { Injector, InjectionToken } from '@angular/core';
+import type { PluginEventBus } from '../services/plugin-event-bus.service';
+import type { PluginAuditLog } from '../services/plugin-audit-log.service';
+import {
+  PluginEventMap,
+  PluginEventArgs,
+  PluginRequestMap,
+  PluginRequestOptions,
+  PluginRequestHandler
+} from './event-bus.types';
 
-export interface PluginContext {
+/**
+ * v1.5.0: Pass an event map to type-check emit/subscribe payloads
+ * Example: PluginContext<PluginEvents<{ 'invoice:paid': { id: string } }>>
+ */
+export interface PluginContext<
+  TEvents extends PluginEventMap = PluginEventMap,
+  TRequests extends PluginRequestMap = PluginRequestMap
+> {
   readonly pluginName: string;
   readonly hostInjector: Injector;
   getService<T>(token: InjectionToken<T> | Type<T>): T | null;
-  emit(eventName: string, data?: any): void;
-  subscribe(eventName: string, handler: (data: any) => void): () => void;
+  emit<K extends keyof TEvents & string>(eventName: K, ...args: PluginEventArgs<TEvents, K>): void;
+  subscribe<K extends keyof TEvents & string>(
+    eventName: K,
+    handler: (data: TEvents[K]) => void
+  ): () => void;
+  /** v1.5.0: Ask another plugin (or the host) a question and await its answer */
+  request<K extends keyof TRequests & string>(
+    topic: K,
+    payload?: TRequests[K]['request'],
+    options?: PluginRequestOptions
+  ): Promise<TRequests[K]['response']>;
+  /** v1.5.0: Answer requests sent to a topic in this plugin's namespace */
+  handle<K extends keyof TRequests & string>(
+    topic: K,
+    handler: PluginRequestHandler<TRequests[K]['request'], TRequests[K]['response']>
+  ): () => void;
 }
 
 export interface PluginContextConfig {
   pluginName: string;
   hostInjector: Injector;
   allowedServices?: Array<InjectionToken<any> | Type<any>>;
+  /** v1.5.0: Shared host event bus (a private bus is used when omitted) */
+  eventBus?: PluginEventBus;
+  /** v1.5.0: Topic patterns the plugin may receive and send requests to besides its own namespace */
+  allowedEvents?: string[];
+  /** v1.5.0: Resolves services provided by other loaded plugins before falling back to the host */
+  serviceResolver?: <T>(token: InjectionToken<T> | Type<T>) => T | null;
+  /** v1.5.0: Capability checks; when set, they replace allowedServices and allowedEvents */
+  permissions?: PluginContextPermissions;
+  /** v1.5.0: Receives a record for every getService(), hostInjector lookup and emit() */
+  auditLog?: PluginAuditLog;
+  /** v1.5.0: Host services the plugin can never resolve, even when allowed or granted */
+  deniedServices?: Array<InjectionToken<any> | Type<any>>;
+}
+
+// v1.5.0: Resolved permission policy for one plugin
+export interface PluginContextPermissions {
+  granted: string[];
+  /** Capability a service requires; undefined denies the service */
+  capabilityFor: (token: InjectionToken<any> | Type<any>) => string | undefined;
+  onViolation: 'throw' | 'log';
 }
 
 type Type<T> = new (...args: any[]) => T;
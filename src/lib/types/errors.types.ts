@@ -58,13 +58,22 @@ export class PluginAlreadyRegisteredError extends PluginError {
 }
 
 export class PluginStateError extends PluginError {
-  constructor(pluginName: string, expectedState: string, actualState: string) {
+  constructor(
+    pluginName: string,
+    expectedState: string,
+    actualState: string,
+    public readonly targetState?: string // v1.5.0: Set when an illegal state transition was attempted
+  ) {
     super(
-      `Plugin ${pluginName} is in ${actualState} state, expected ${expectedState}`,
+      targetState
+        ? `Plugin ${pluginName} cannot transition from ${actualState} to ${targetState}`
+        : `Plugin ${pluginName} is in ${actualState} state, expected ${expectedState}`,
       pluginName,
       undefined,
       {
-        suggestion: `Wait for the plugin to reach ${expectedState} state before performing this operation. Use pluginState$ observable to track state changes.`,
+        suggestion: targetState
+          ? `Allowed transitions from ${actualState}: ${expectedState || 'none'}. Use PluginManager.getAllowedTransitions() to check before changing state.`
+          : `Wait for the plugin to reach ${expectedState} state before performing this operation. Use pluginState$ observable to track state changes.`,
         docs: 'https://github.com/angular-dynamic-plugin-system#plugin-states'
       }
     );
@@ -114,7 +123,7 @@ export class PluginLifecycleTimeoutError extends PluginError {
 export class PluginOperationInProgressError extends PluginError {
   constructor(
     public readonly pluginName: string,
-    public readonly operation: 'creating' | 'unloading'
+    public readonly operation: 'creating' | 'unloading' | 'deactivating'
   ) {
     super(
       `Cannot perform operation: plugin ${pluginName} is currently ${operation}`,
@@ -129,3 +138,212 @@ export class PluginOperationInProgressError extends PluginError {
     Object.setPrototypeOf(this, PluginOperationInProgressError.prototype);
   }
 }
+
+// v1.5.0: Plugin dependency resolution
+export type PluginDependencyErrorReason =
+  | 'MISSING'
+  | 'INCOMPATIBLE'
+  | 'CIRCULAR'
+  | 'LOAD_FAILED'
+  | 'HAS_DEPENDENTS';
+
+export class PluginDependencyError extends PluginError {
+  constructor(
+    public readonly pluginName: string,
+    public readonly dependencyName: string,
+    public readonly reason: PluginDependencyErrorReason,
+    public readonly details: {
+      requiredRange?: string;
+      actualVersion?: string;
+      cycle?: string[];
+      dependents?: string[];
+    } = {},
+    cause?: Error
+  ) {
+    super(
+      PluginDependencyError.describe(pluginName, dependencyName, reason, details),
+      pluginName,
+      cause,
+      {
+        suggestion: PluginDependencyError.suggest(reason),
+        docs: 'https://github.com/angular-dynamic-plugin-system#plugin-dependencies'
+      }
+    );
+    this.name = 'PluginDependencyError';
+    Object.setPrototypeOf(this, PluginDependencyError.prototype);
+  }
+
+  private static describe(
+    pluginName: string,
+    dependencyName: string,
+    reason: PluginDependencyErrorReason,
+    details: PluginDependencyError['details']
+  ): string {
+    switch (reason) {
+      case 'MISSING':
+        return `Plugin ${pluginName} depends on ${dependencyName}, which is not registered`;
+      case 'INCOMPATIBLE':
+        return `Plugin ${pluginName} requires ${dependencyName}@${details.requiredRange}, but version ${details.actualVersion} is loaded`;
+      case 'CIRCULAR':
+        return `Circular dependency detected for plugin ${pluginName}: ${(details.cycle || []).join(' → ')}`;
+      case 'LOAD_FAILED':
+        return `Plugin ${pluginName} cannot load because its dependency ${dependencyName} failed to load`;
+      case 'HAS_DEPENDENTS':
+        return `Plugin ${pluginName} is still required by: ${(details.dependents || []).join(', ')}`;
+    }
+  }
+
+  private static suggest(reason: PluginDependencyErrorReason): string {
+    switch (reason) {
+      case 'MISSING':
+        return 'Register the dependency with pluginManager.register() before loading the plugin that needs it.';
+      case 'INCOMPATIBLE':
+        return 'Update the dependency to a version matching the range declared in PluginManifest.dependencies, or relax the range.';
+      case 'CIRCULAR':
+        return 'Remove one of the dependencies in the cycle. Plugins must form a directed acyclic graph.';
+      case 'LOAD_FAILED':
+        return 'Inspect the dependency with getPluginInfo() to see why it failed to load.';
+      case 'HAS_DEPENDENTS':
+        return 'Unregister the dependent plugins first, or call unregister(name, { cascade: true }) to remove them together.';
+    }
+  }
+}
+
+// v1.5.0: Dev mode payload validation for typed event contracts
+export class PluginEventValidationError extends PluginError {
+  constructor(
+    public readonly topic: string,
+    public readonly reason: string,
+    pluginName?: string
+  ) {
+    super(
+      `Invalid payload for event '${topic}'${pluginName ? ` emitted by plugin ${pluginName}` : ''}: ${reason}`,
+      pluginName,
+      undefined,
+      {
+        suggestion: 'Make sure the payload matches the event contract shared between the producing and consuming plugins.',
+        docs: 'https://github.com/angular-dynamic-plugin-system#typed-events'
+      }
+    );
+    this.name = 'PluginEventValidationError';
+    Object.setPrototypeOf(this, PluginEventValidationError.prototype);
+  }
+}
+
+// v1.5.0: Request/response between plugins
+export class PluginRequestTimeoutError extends PluginError {
+  constructor(
+    public readonly topic: string,
+    public readonly timeoutMs: number,
+    pluginName?: string
+  ) {
+    super(
+      `Request '${topic}'${pluginName ? ` from plugin ${pluginName}` : ''} received no response within ${timeoutMs}ms`,
+      pluginName,
+      undefined,
+      {
+        suggestion: 'Check that the responding plugin is loaded and has called context.handle() for this topic, or increase the request timeout.',
+        docs: 'https://github.com/angular-dynamic-plugin-system#plugin-requests'
+      }
+    );
+    this.name = 'PluginRequestTimeoutError';
+    Object.setPrototypeOf(this, PluginRequestTimeoutError.prototype);
+  }
+}
+
+// v1.5.0: Remote plugin catalogs
+export class PluginCatalogError extends PluginError {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[],
+    cause?: Error
+  ) {
+    super(
+      `Invalid plugin catalog ${source}: ${problems.join('; ')}`,
+      undefined,
+      cause,
+      {
+        suggestion: 'Check the catalog against the documented format: { schemaVersion: 1, plugins: [{ name, remoteUrl, exposedModule, ... }] }.',
+        docs: 'https://github.com/angular-dynamic-plugin-system#plugin-catalogs'
+      }
+    );
+    this.name = 'PluginCatalogError';
+    Object.setPrototypeOf(this, PluginCatalogError.prototype);
+  }
+}
+
+// v1.5.0: Version-aware remote plugin updates
+export class PluginUpgradeError extends PluginError {
+  constructor(
+    pluginName: string,
+    public readonly fromVersion: string | undefined,
+    public readonly toVersion: string | undefined,
+    cause: Error,
+    public readonly rolledBack: boolean
+  ) {
+    super(
+      `Failed to upgrade plugin ${pluginName} from ${fromVersion ?? 'unknown'} to ${toVersion ?? 'unknown'}: ${cause.message}` +
+        (rolledBack ? ` (rolled back to ${fromVersion ?? 'the previous version'})` : ''),
+      pluginName,
+      cause,
+      {
+        suggestion: rolledBack
+          ? 'The previous version is running again. Check the new bundle and its onLoad() hook, then retry the upgrade.'
+          : 'The previous version could not be restored. Reload or re-register the plugin.',
+        docs: 'https://github.com/angular-dynamic-plugin-system#plugin-updates'
+      }
+    );
+    this.name = 'PluginUpgradeError';
+    Object.setPrototypeOf(this, PluginUpgradeError.prototype);
+  }
+}
+
+// v1.5.0: Capability-based plugin permissions
+export class PluginPermissionError extends PluginError {
+  constructor(
+    pluginName: string,
+    public readonly capability: string | undefined,
+    public readonly action: string
+  ) {
+    super(
+      capability
+        ? `Plugin ${pluginName} cannot ${action}: capability '${capability}' was not granted`
+        : `Plugin ${pluginName} cannot ${action}: no capability grants it`,
+      pluginName,
+      undefined,
+      {
+        suggestion: capability
+          ? `Declare '${capability}' in PluginManifest.permissions and grant it to ${pluginName} in PluginSystemConfig.permissionPolicy.`
+          : 'Map the service to a capability in permissionPolicy.services, then declare and grant that capability.',
+        docs: 'https://github.com/angular-dynamic-plugin-system#plugin-permissions'
+      }
+    );
+    this.name = 'PluginPermissionError';
+    Object.setPrototypeOf(this, PluginPermissionError.prototype);
+  }
+}
+
+// v1.5.0: Consent for sensitive capabilities
+export class PluginConsentError extends PluginError {
+  constructor(
+    pluginName: string,
+    public readonly capability: string,
+    public readonly noHandler = false // No PLUGIN_CONSENT_HANDLER was provided to ask the user
+  ) {
+    super(
+      noHandler
+        ? `Plugin ${pluginName} needs consent for capability '${capability}', but no PLUGIN_CONSENT_HANDLER is provided`
+        : `Consent for capability '${capability}' was denied to plugin ${pluginName}`,
+      pluginName,
+      undefined,
+      {
+        suggestion: noHandler
+          ? 'Provide PLUGIN_CONSENT_HANDLER to ask the user, or remove the capability from permissionPolicy.sensitive.'
+          : 'The decision is remembered. Call PluginManager.clearConsent() to ask the user again, then reload the plugin.',
+        docs: 'https://github.com/angular-dynamic-plugin-system#plugin-consent'
+      }
+    );
+    this.name = 'PluginConsentError';
+    Object.setPrototypeOf(this, PluginConsentError.prototype);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Types for the cross-plugin event bus
+ * v1.5.0: Events published through PluginContext.emit or the host
+ */
+
+export interface PluginBusEvent<T = any> {
+  /**
+   * Fully-qualified topic, namespaced by the publishing plugin
+   * Example: 'invoice:paid'
+   */
+  topic: string;
+
+  /**
+   * Name of the publishing plugin, or null when published by the host
+   */
+  source: string | null;
+
+  /**
+   * Event payload
+   */
+  data: T;
+
+  timestamp: Date;
+}
+
+/**
+ * v1.5.0: Map of event names to payload types
+ */
+export type PluginEventMap = Record<string, any>;
+
+/**
+ * v1.5.0: Declares a typed event contract shared by producers and consumers
+ * Example: type InvoiceEvents = PluginEvents<{ 'invoice:paid': { id: string } }>;
+ */
+export type PluginEvents<T extends PluginEventMap> = T;
+
+/**
+ * v1.5.0: Payload arguments for emit - optional when the payload type is void/undefined
+ */
+export type PluginEventArgs<TEvents extends PluginEventMap, K extends keyof TEvents> =
+  [TEvents[K]] extends [void | undefined] ? [data?: TEvents[K]] : [data: TEvents[K]];
+
+/**
+ * v1.5.0: Runtime payload check used in dev mode
+ * Return true (or nothing) when valid, false or an error message when invalid
+ */
+export type PluginEventValidator<T = unknown> = (data: T, topic: string) => boolean | string | void;
+
+/**
+ * v1.5.0: Map of request topics to their request and response payload types
+ */
+export type PluginRequestMap = Record<string, { request: any; response: any }>;
+
+/**
+ * v1.5.0: Declares a typed request/response contract
+ * Example: type CrmRequests = PluginRequests<{ 'crm:customer-id': { request: void; response: string } }>;
+ */
+export type PluginRequests<T extends PluginRequestMap> = T;
+
+export interface PluginRequestOptions {
+  /**
+   * Time to wait for a handler and its response (ms)
+   * Default: 5000, 0 disables the timeout (the request then fails at once when no handler is registered)
+   */
+  timeout?: number;
+}
+
+/**
+ * v1.5.0: Responds to requests sent with PluginContext.request
+ */
+export type PluginRequestHandler<TRequest = any, TResponse = any> = (
+  payload: TRequest,
+  request: { topic: string; source: string | null }
+) => TResponse | Promise<TResponse>;
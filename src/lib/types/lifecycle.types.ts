@@ -5,6 +5,10 @@ export interface PluginLifecycle {
   onActivate?(context: PluginContext): void | Promise<void>;
   onDeactivate?(): void | Promise<void>;
   onDestroy?(): void | Promise<void>;
+  /** v1.5.0: Called before a hot reload; the returned value is handed to onAfterReload */
+  onBeforeReload?(): unknown | Promise<unknown>;
+  /** v1.5.0: Called on the new instance after a hot reload with the state from onBeforeReload */
+  onAfterReload?(state: unknown, context: PluginContext): void | Promise<void>;
 }
 
 export interface PluginLifecycleHooks {
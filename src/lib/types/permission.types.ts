@@ -0,0 +1,88 @@
+import { InjectionToken, Type } from '@angular/core';
+import type { PluginManifest } from './plugin.types';
+
+/**
+ * Types for capability-based plugin permissions
+ * v1.5.0: Plugins declare capabilities in PluginManifest.permissions; the host grants them per plugin.
+ * Once PluginSystemConfig.permissionPolicy is set, anything not granted is denied.
+ */
+
+/**
+ * Capability names are free-form, colon-separated strings (e.g. 'http:read', 'storage').
+ * A trailing '*' covers every capability with that prefix ('http:*', 'events:invoice:*').
+ * 'events:<topic pattern>' capabilities cover event bus topics outside the plugin's own namespace.
+ */
+export type PluginCapability = string;
+
+export interface PluginPermissionPolicy {
+  /**
+   * Capabilities granted per plugin name; '*' applies to every plugin
+   * Example: { '*': ['events:host:*'], invoices: ['http:read', 'events:crm:*'] }
+   */
+  grants?: Record<string, PluginCapability[]>;
+
+  /**
+   * Decide requested capabilities that `grants` does not cover
+   * Called once per capability when the plugin loads. Default: deny
+   */
+  decide?: (request: PluginPermissionRequest) => boolean | Promise<boolean>;
+
+  /**
+   * Capability required to obtain each host service through context.getService()
+   * Services without an entry are denied. Services provided by another plugin
+   * require 'plugin:<provider name>' unless they are listed here.
+   */
+  services?: PluginServicePermission[];
+
+  /**
+   * Capability patterns that also need the user's consent (e.g. ['storage', 'http:write'])
+   * Granted sensitive capabilities stay unusable until the plugin first activates and the
+   * PLUGIN_CONSENT_HANDLER approves them. Without a consent handler they are denied.
+   */
+  sensitive?: PluginCapability[];
+
+  /**
+   * Where consent decisions are kept so the user is asked only once
+   * Default: localStorage when available, otherwise in memory
+   */
+  consentStorage?: PluginConsentStorage;
+
+  /**
+   * What happens when a plugin uses a capability it was not granted
+   * Either way the access is denied. Default: 'log' with enableDevMode, 'throw' otherwise
+   */
+  onViolation?: 'throw' | 'log';
+}
+
+export interface PluginServicePermission {
+  token: InjectionToken<any> | Type<any>;
+  capability: PluginCapability;
+}
+
+export interface PluginPermissionRequest {
+  pluginName: string;
+  capability: PluginCapability;
+  manifest: PluginManifest;
+}
+
+/**
+ * Asks the user whether a plugin may use a sensitive capability
+ * Provide it with PLUGIN_CONSENT_HANDLER, e.g. { provide: PLUGIN_CONSENT_HANDLER, useClass: ConsentDialogHandler }
+ */
+export interface PluginConsentHandler {
+  requestConsent(request: PluginPermissionRequest): boolean | Promise<boolean>;
+}
+
+export interface PluginConsentDecision {
+  pluginName: string;
+  capability: PluginCapability;
+  granted: boolean;
+  decidedAt: number;
+}
+
+export interface PluginConsentStorage {
+  get(pluginName: string, capability: PluginCapability): Promise<PluginConsentDecision | undefined>;
+  set(decision: PluginConsentDecision): Promise<void>;
+  /** Forget the decisions for one plugin, or for all plugins */
+  clear(pluginName?: string): Promise<void>;
+}
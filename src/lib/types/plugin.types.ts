@@ -1,16 +1,27 @@
-import { Type } from '@angular/core';
+import { ComponentRef, InjectionToken, Provider, Type, ViewContainerRef } from '@angular/core';
 import { PluginLifecycle } from './lifecycle.types';
+import { RemotePluginFormat } from './remote-plugin.types';
+import type { PluginWorkerHost } from '../utils/plugin-worker.util';
 
 export interface PluginManifest {
   name: string;
   version: string;
-  entryComponent: Type<PluginLifecycle>;
+  /** Required unless the plugin is headless (v1.5.0) */
+  entryComponent?: Type<PluginLifecycle>;
+  /** v1.5.0: No UI; set for worker plugins registered with registerWorkerPlugin() */
+  headless?: boolean;
   /** Optional NgModule to bootstrap with the plugin (v1.4.0) */
   entryModule?: Type<any>;
   displayName?: string;
   description?: string;
   author?: string;
   dependencies?: Record<string, string>;
+  /** v1.5.0: Providers added to the plugin's EnvironmentInjector */
+  providers?: Provider[];
+  /** v1.5.0: Tokens other plugins may obtain through PluginContext.getService while this plugin is loaded */
+  provides?: Array<InjectionToken<any> | Type<any>>;
+  /** v1.5.0: Capabilities the plugin needs (e.g. 'http:read', 'storage', 'events:invoice:*') */
+  permissions?: string[];
 }
 
 export enum PluginState {
@@ -30,22 +41,61 @@ export interface PluginMetadata {
   activatedAt?: Date; // v1.1.0: Enhancement #3 - Track activation time
   error?: Error;
   errorCount?: number; // v1.1.0: Enhancement #3 - Track error history
-  componentRef?: any;
+  componentRef?: any; // Most recently created live instance (see instances)
+  instances?: PluginComponentInstance[]; // v1.5.0: All live component instances
   isCreatingComponent?: boolean; // v1.1.0: Fix #3 - Race condition protection
   moduleReference?: any; // v1.1.1: Memory optimization - Track loaded module for cleanup
   ngModuleRef?: any; // v1.4.0: Track NgModuleRef for plugins with entryModule
   injectorReference?: any; // v1.1.1: Memory optimization - Track injector for proper cleanup
+  loadAttempts?: PluginLoadAttempt[]; // v1.5.0: Failed attempts of the most recent load
+  remote?: PluginRemoteInfo; // v1.5.0: Set for plugins registered from a remote URL
+  grantedPermissions?: string[]; // v1.5.0: Manifest permissions granted by the permission policy
+  pendingConsent?: string[]; // v1.5.0: Granted sensitive capabilities still waiting for user consent
+}
+
+// v1.5.0: Where a remote plugin comes from and how it was last fetched
+export interface PluginRemoteInfo {
+  url: string;
+  exposedModule: string;
+  format: RemotePluginFormat;
+  version?: string;
+  lazy: boolean; // Registered without fetching (registerRemotePlugin lazy mode or catalogs)
+  loadTime?: number; // Set once the bundle has been fetched
+  fromCache?: boolean;
+}
+
+// v1.5.0: A rendered component of a plugin; a plugin may have several at once
+export interface PluginComponentInstance {
+  instanceId: string;
+  componentRef: ComponentRef<PluginLifecycle>;
+  viewContainer?: ViewContainerRef;
+  createdAt: Date;
+}
+
+// v1.5.0: One failed loadFn attempt when PluginConfig.retryOnError is enabled
+export interface PluginLoadAttempt {
+  attempt: number;
+  error: Error;
+  timestamp: Date;
+  /** Delay before the next attempt (undefined when no retry follows) */
+  retryDelay?: number;
 }
 
 export interface PluginStateEvent {
   pluginName: string;
-  state: PluginState;
+  state: PluginState; // Same as `to`
+  from?: PluginState; // v1.5.0: Previous state (undefined for the initial REGISTERED event)
+  to: PluginState; // v1.5.0: New state
   timestamp: Date;
   error?: Error;
+  attempt?: number; // v1.5.0: Load attempt number for LOADING events
+  maxAttempts?: number; // v1.5.0: Total attempts allowed by the retry policy
 }
 
 export interface LoadedPluginModule {
   PluginManifest: PluginManifest;
+  /** v1.5.0: Running worker of a headless plugin */
+  worker?: PluginWorkerHost;
 }
 
 // v1.1.0: Enhancement #3 - Plugin metadata inspection
@@ -56,6 +106,11 @@ export interface PluginInfo {
   activatedAt?: Date;
   manifest?: PluginManifest;
   hasComponent: boolean;
+  instanceCount: number; // v1.5.0
   errorCount: number;
   lastError?: Error;
+  retryHistory: PluginLoadAttempt[]; // v1.5.0
+  remote?: PluginRemoteInfo; // v1.5.0
+  grantedPermissions?: string[]; // v1.5.0
+  pendingConsent?: string[]; // v1.5.0
 }
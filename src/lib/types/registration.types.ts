@@ -1,6 +1,10 @@
 import { InjectionToken, Type } from '@angular/core';
 import { LoadedPluginModule } from './plugin.types';
 import { PluginLifecycleHooks } from './lifecycle.types';
+import { PluginEventValidator } from './event-bus.types';
+import { RemotePluginSigningKey, RemotePluginCacheConfig, RemotePluginSecurityConfig } from './remote-plugin.types';
+import { PluginPermissionPolicy, PluginConsentHandler } from './permission.types';
+import { PluginAuditConfig } from './audit.types';
 
 export interface PluginRegistration {
   name: string;
@@ -11,12 +15,38 @@ export interface PluginRegistration {
 export interface PluginConfig {
   autoLoad?: boolean;
   retryOnError?: boolean;
+  /** Retries after the first failed attempt (default: 3 when retryOnError is set) */
   maxRetries?: number;
+  /** v1.5.0: Backoff between retries (default: 'exponential') */
+  retryBackoff?: PluginRetryBackoff;
+  /** v1.5.0: Base delay between retries in ms (default: 1000) */
+  retryDelay?: number;
+  /** v1.5.0: Upper bound for the delay between retries in ms (default: 5000) */
+  maxRetryDelay?: number;
   timeout?: number;
+  /** Ignored once PluginSystemConfig.permissionPolicy is set (v1.5.0) */
   allowedServices?: Array<InjectionToken<any> | Type<any>>;
+  /**
+   * v1.5.0: Event bus topic patterns (e.g. 'invoice:*') the plugin may receive and send requests to
+   * in addition to its own namespace, which it always emits into. Default: all topics
+   * Ignored once PluginSystemConfig.permissionPolicy is set.
+   */
+  allowedEvents?: string[];
   metadata?: Record<string, any>;
 }
 
+// v1.5.0: Backoff strategies for PluginConfig.retryOnError
+export type PluginRetryBackoff = 'fixed' | 'exponential' | 'jittered';
+
+// v1.5.0: Options for PluginManager.unregister
+export interface PluginUnregisterOptions {
+  /**
+   * Also unregister loaded plugins that depend on this one (dependents first)
+   * Default: false - unregister fails with PluginDependencyError instead
+   */
+  cascade?: boolean;
+}
+
 // v1.1.0: Enhancement #2 - Debug mode options
 export interface PluginDebugOptions {
   logLifecycleHooks?: boolean;
@@ -33,8 +63,29 @@ export interface PluginSystemConfig {
   defaultAllowedServices?: Array<InjectionToken<any> | Type<any>>;
   lifecycleHookTimeout?: number; // v1.1.0: Fix #1 - Default: 5000ms
   debugOptions?: PluginDebugOptions; // v1.1.0: Enhancement #2 - Debug mode enhancements
+  /** v1.5.0: Payload validators keyed by topic pattern, only run when enableDevMode is set */
+  eventValidators?: Record<string, PluginEventValidator<any>>;
+  /** v1.5.0: Public keys used to verify RemotePluginConfig.signature */
+  trustedSigningKeys?: RemotePluginSigningKey[];
+  /** v1.5.0: Persist remote plugin bundles across page loads (keyed by URL + version) */
+  remoteCache?: RemotePluginCacheConfig;
+  /** v1.5.0: CSP nonce, Trusted Types policy and allowed origins for remote plugins */
+  remoteSecurity?: RemotePluginSecurityConfig;
+  /**
+   * v1.5.0: Grant capabilities from PluginManifest.permissions per plugin
+   * When set, services and foreign event topics are denied unless granted,
+   * and allowedServices/allowedEvents/defaultAllowedServices are ignored.
+   */
+  permissionPolicy?: PluginPermissionPolicy;
+  /** v1.5.0: Record service access, events, state transitions and remote loads (see PluginAuditLog) */
+  audit?: PluginAuditConfig;
 }
 
 export const PLUGIN_SYSTEM_CONFIG = new InjectionToken<PluginSystemConfig>(
   'PLUGIN_SYSTEM_CONFIG'
 );
+
+// v1.5.0: Asks the user before a plugin uses a capability listed in permissionPolicy.sensitive
+export const PLUGIN_CONSENT_HANDLER = new InjectionToken<PluginConsentHandler>(
+  'PLUGIN_CONSENT_HANDLER'
+);
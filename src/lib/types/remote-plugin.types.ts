@@ -1,3 +1,5 @@
+import type { PluginSandboxOptions } from './sandbox.types';
+
 /**
  * Types for remote plugin loading support
  * v1.2.0: Remote plugin loading from external URLs
@@ -18,14 +20,51 @@ export interface RemotePluginConfig {
   /**
    * Name of the global variable exposed by the remote plugin
    * Example: 'AnalyticsPlugin'
+   * For `format: 'esm'` this is the name of the export ('default' for the default export)
    */
   exposedModule: string;
 
+  /**
+   * How the remote bundle is loaded (v1.5.0)
+   * - 'global': classic <script> tag publishing `exposedModule` on window
+   * - 'esm': dynamic import() of the URL, no globals involved
+   * - 'federation': `remoteUrl` is a Module Federation remoteEntry and `exposedModule`
+   *   the exposed path (e.g. './Plugin')
+   * Default: 'global'
+   */
+  format?: RemotePluginFormat;
+
+  /**
+   * Module Federation options, used with `format: 'federation'` (v1.5.0)
+   */
+  federation?: RemoteFederationOptions;
+
+  /**
+   * Subresource Integrity hash(es) of the bundle (v1.5.0)
+   * Set as the script's `integrity` attribute; verified by the loader for
+   * fetch-based modes ('esm', federation `type: 'module'`) and signed plugins
+   * Example: 'sha384-oqVuAfXRKap7fdgcCY5uykM6+R9GqQ8K/uxy9rx7HNQlGYl1kPzQho1wx4JwY8wC'
+   */
+  integrity?: string;
+
+  /**
+   * Detached signature of the bundle, verified against
+   * `PluginSystemConfig.trustedSigningKeys` before the code is evaluated (v1.5.0)
+   */
+  signature?: RemotePluginSignature;
+
   /**
    * Version of the remote plugin (optional)
    */
   version?: string;
 
+  /**
+   * Run the plugin in a sandboxed iframe instead of the host realm (v1.5.0)
+   * The bundle ('global' or 'esm') must expose `mount(element, context)` instead of a PluginManifest.
+   * `true` uses the defaults; see PluginSandboxOptions.
+   */
+  sandbox?: boolean | PluginSandboxOptions;
+
   /**
    * Timeout for loading the remote script (ms)
    * Default: 30000 (30 seconds)
@@ -50,6 +89,72 @@ export interface RemotePluginConfig {
   metadata?: Record<string, any>;
 }
 
+export type RemotePluginFormat = 'global' | 'esm' | 'federation';
+
+export interface RemotePluginSignature {
+  /**
+   * Base64 signature over the raw bundle bytes
+   */
+  value?: string;
+
+  /**
+   * URL of a file containing the base64 signature (used when `value` is not set)
+   */
+  url?: string;
+
+  /**
+   * Key to verify with; all trusted keys are tried when omitted
+   */
+  keyId?: string;
+}
+
+/**
+ * Public key trusted to sign remote plugins
+ * ECDSA (P-256/P-384/P-521), RSASSA-PKCS1-v1_5 (RS256/RS384/RS512) and Ed25519 JWKs are supported
+ */
+export interface RemotePluginSigningKey {
+  keyId: string;
+  jwk: JsonWebKey;
+}
+
+export interface RemoteFederationOptions {
+  /**
+   * Name of the remote container (the `name` in the remote's federation config)
+   * Default: the plugin name
+   */
+  remoteName?: string;
+
+  /**
+   * How remoteEntry.js is built
+   * - 'script': `library.type: 'var'`, container published on window[remoteName]
+   * - 'module': `library.type: 'module'`, container is the module namespace
+   * Default: 'script'
+   */
+  type?: 'script' | 'module';
+
+  /**
+   * Share scope used to initialize the container
+   * Default: 'default'
+   */
+  shareScope?: string;
+}
+
+/**
+ * Module Federation container interface exposed by remoteEntry.js
+ */
+export interface FederationContainer {
+  init(shareScope: Record<string, unknown>): void | Promise<void>;
+  get(exposedModule: string): Promise<() => any>;
+}
+
+export interface RemotePluginRegisterOptions {
+  /**
+   * Register without fetching; the script is loaded by load() or <plugin-outlet> (v1.5.0)
+   * Default: false
+   */
+  lazy?: boolean;
+}
+
 export interface RemotePluginLoadResult {
   /**
    * The loaded module from the remote URL
@@ -65,10 +170,15 @@ export interface RemotePluginLoadResult {
    * Whether the plugin was loaded from cache
    */
   fromCache: boolean;
+
+  /**
+   * Whether the bundle came from the persistent cache instead of the network (v1.5.0)
+   */
+  fromPersistentCache?: boolean;
 }
 
 export interface RemotePluginError extends Error {
-  code: 'TIMEOUT' | 'NETWORK_ERROR' | 'MODULE_NOT_FOUND' | 'INVALID_MODULE';
+  code: 'TIMEOUT' | 'NETWORK_ERROR' | 'MODULE_NOT_FOUND' | 'INVALID_MODULE' | 'INTEGRITY_FAILED' | 'ORIGIN_NOT_ALLOWED'; // v1.5.0: INTEGRITY_FAILED, ORIGIN_NOT_ALLOWED
   url: string;
   pluginName: string;
 }
@@ -80,5 +190,138 @@ export interface RemotePluginCacheEntry {
   url: string;
   module: any;
   loadedAt: Date;
-  scriptElement: HTMLScriptElement;
+  format?: RemotePluginFormat; // v1.5.0
+  globalName?: string; // v1.5.0: Federation container global removed on unload
+  size?: number; // v1.5.0: Bundle size in bytes when fetched by the loader
+  scriptElement?: HTMLScriptElement; // Not set for 'esm' plugins
+}
+
+/**
+ * Remote plugin catalog (v1.5.0)
+ * JSON index of remote plugins consumed by PluginManager.registerCatalog()
+ */
+export interface PluginCatalog {
+  /**
+   * Catalog format version, currently 1
+   */
+  schemaVersion: number;
+
+  plugins: PluginCatalogEntry[];
+}
+
+/**
+ * A catalog entry is a RemotePluginConfig; relative `remoteUrl`s resolve against the catalog URL
+ */
+export interface PluginCatalogEntry extends RemotePluginConfig {
+  /**
+   * Load the plugin right after registration
+   * Default: false
+   */
+  autoLoad?: boolean;
+}
+
+export interface PluginCatalogOptions {
+  /**
+   * Identifies the catalog when it is refreshed
+   * Default: the catalog URL, or 'default' for catalog objects
+   */
+  id?: string;
+}
+
+/**
+ * Changes applied by PluginManager.registerCatalog()
+ */
+export interface PluginCatalogDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+/**
+ * Newer version of a registered plugin found by PluginManager.checkForUpdates() (v1.5.0)
+ */
+export interface PluginUpdateInfo {
+  name: string;
+  catalogId: string;
+  currentVersion: string;
+  availableVersion: string;
+  /**
+   * Catalog entry of the new version, to pass to PluginManager.upgrade()
+   */
+  config: PluginCatalogEntry;
+}
+
+/**
+ * Persistent cache for remote plugin bundles (v1.5.0)
+ * Implementations: CacheStorageRemotePluginStorage, IndexedDbRemotePluginStorage, MemoryRemotePluginStorage
+ */
+export interface RemotePluginStorage {
+  get(key: string): Promise<RemotePluginStoredBundle | undefined>;
+  set(key: string, bundle: RemotePluginStoredBundle): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<RemotePluginStoredBundleInfo[]>;
+}
+
+export interface RemotePluginStoredBundleInfo {
+  key: string;
+  url: string;
+  version?: string;
+  storedAt: number; // Epoch ms
+  size: number; // Bytes
+}
+
+export interface RemotePluginStoredBundle extends RemotePluginStoredBundleInfo {
+  source: ArrayBuffer;
+}
+
+export interface RemotePluginCacheConfig {
+  /**
+   * Storage backend
+   * Default: Cache Storage when available, otherwise IndexedDB, otherwise in-memory
+   */
+  storage?: RemotePluginStorage;
+
+  /**
+   * How long a stored bundle is used without contacting the network (ms)
+   * Default: 86400000 (24 hours)
+   */
+  maxAge?: number;
+
+  /**
+   * How long after maxAge a stored bundle is still served while it is refreshed in the background (ms)
+   * Default: 0
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Content Security Policy support for remote loading (v1.5.0)
+ */
+export interface RemotePluginSecurityConfig {
+  /**
+   * Nonce set on injected <script> elements; a function is called for every script
+   * Default: Angular's CSP_NONCE when provided
+   */
+  nonce?: string | (() => string | null | undefined);
+
+  /**
+   * Trusted Types policy for script URLs
+   * A name creates a policy through window.trustedTypes that only accepts allowedOrigins
+   * and the loader's verified blob: URLs; pass a policy object to use your own.
+   * Default: none - script URLs are assigned as plain strings
+   */
+  trustedTypesPolicy?: string | RemotePluginTrustedTypesPolicy;
+
+  /**
+   * Origins remoteUrl may point at, e.g. ['https://cdn.example.com', 'https://*.plugins.example.com', 'self']
+   * Other URLs are rejected with ORIGIN_NOT_ALLOWED before anything is fetched or added to the DOM.
+   * Default: any origin
+   */
+  allowedOrigins?: string[];
+}
+
+// The part of a TrustedTypePolicy the loader uses
+export interface RemotePluginTrustedTypesPolicy {
+  createScriptURL(url: string): unknown;
 }
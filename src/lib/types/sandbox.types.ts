@@ -0,0 +1,64 @@
+import { InjectionToken, Type } from '@angular/core';
+import type { RemotePluginConfig } from './remote-plugin.types';
+
+/**
+ * Types for sandboxed (iframe) plugin execution
+ * v1.5.0: Untrusted plugins run in a sandboxed iframe and reach the host only through a postMessage bridge
+ */
+
+export interface PluginSandboxOptions {
+  /**
+   * Host services the plugin may call, by the name it uses in `context.getService(name)`
+   * Calls go through the plugin's context, so allowedServices or the permission policy still applies.
+   * Arguments and results must be structured-cloneable.
+   * Example: { analytics: AnalyticsService }
+   */
+  services?: Record<string, InjectionToken<any> | Type<any>>;
+
+  /**
+   * Extra iframe sandbox tokens besides 'allow-scripts' (e.g. 'allow-forms', 'allow-popups')
+   * 'allow-same-origin' is never granted: together with scripts it would lift the sandbox.
+   */
+  permissions?: string[];
+
+  /**
+   * Capabilities to request for the plugin (v1.5.0)
+   * The host generates a sandboxed plugin's manifest, so this becomes its PluginManifest.permissions.
+   */
+  capabilities?: string[];
+
+  /**
+   * CSS height of the iframe
+   * Default: '100%'
+   */
+  height?: string;
+}
+
+/**
+ * v1.5.0: Remote config of a sandboxed plugin, provided to PluginSandboxComponent through the plugin injector
+ */
+export const PLUGIN_SANDBOX_CONFIG = new InjectionToken<RemotePluginConfig>('PLUGIN_SANDBOX_CONFIG');
+
+/**
+ * v1.5.0: CSP nonce for the iframe's scripts, resolved like RemotePluginLoader's (remoteSecurity.nonce, then CSP_NONCE)
+ * The srcdoc document inherits the host's Content Security Policy.
+ */
+export const PLUGIN_SANDBOX_NONCE = new InjectionToken<() => string | null | undefined>('PLUGIN_SANDBOX_NONCE');
+
+/**
+ * Messages sent by the plugin inside the iframe
+ */
+export type PluginSandboxRequest =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'emit'; event: string; data?: unknown }
+  | { type: 'subscribe'; event: string }
+  | { type: 'unsubscribe'; event: string }
+  | { type: 'call'; id: number; service: string; method: string; args: unknown[] };
+
+/**
+ * Messages sent by the host to the iframe
+ */
+export type PluginSandboxResponse =
+  | { type: 'event'; event: string; data?: unknown }
+  | { type: 'result'; id: number; value?: unknown; error?: string };
@@ -0,0 +1,73 @@
+import { PluginConfig } from './registration.types';
+
+/**
+ * Types for headless plugins running in a Web Worker
+ * v1.5.0: Computation-only plugins without an entryComponent
+ */
+
+export interface WorkerPluginRegistration {
+  name: string;
+
+  /**
+   * Worker script URL, or a factory so bundlers can see the worker entry:
+   * () => new Worker(new URL('./pricing.worker', import.meta.url), { type: 'module' })
+   */
+  worker: string | URL | (() => Worker);
+
+  /**
+   * Script type used when `worker` is a URL
+   * Default: 'module'
+   */
+  type?: WorkerType;
+
+  /**
+   * Version reported when the worker does not declare one
+   */
+  version?: string;
+
+  /**
+   * autoLoad, timeout (for the worker to start), retries and metadata
+   */
+  config?: PluginConfig;
+}
+
+/**
+ * What a worker script passes to exposePluginWorker()
+ */
+export interface PluginWorkerDefinition<TApi extends object = Record<string, (...args: any[]) => unknown>> {
+  version?: string;
+
+  /**
+   * Functions the host can call through PluginManager.getWorkerApi()
+   * Arguments and results must be structured-cloneable.
+   */
+  api: TApi;
+
+  /**
+   * Runs when the plugin loads, subject to `lifecycleHookTimeout`
+   */
+  onLoad?(info: { pluginName: string }): void | Promise<void>;
+
+  /**
+   * Runs before the worker is terminated, subject to `lifecycleHookTimeout`
+   */
+  onDestroy?(): void | Promise<void>;
+}
+
+/**
+ * Host-side proxy of a worker plugin's api: every function returns a Promise
+ */
+export type PluginWorkerApi<TApi> = {
+  [K in keyof TApi]: TApi[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<Awaited<R>> : never;
+};
+
+/**
+ * Messages exchanged with the worker
+ */
+export type PluginWorkerRequest =
+  | { type: 'call'; id: number; method: string; args: unknown[] }
+  | { type: 'hook'; id: number; hook: 'onLoad' | 'onDestroy'; args: unknown[] };
+
+export type PluginWorkerResponse =
+  | { type: 'ready'; version?: string; methods: string[] }
+  | { type: 'result'; id: number; value?: unknown; error?: string };
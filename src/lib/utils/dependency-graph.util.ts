@@ -0,0 +1,34 @@
+/**
+ * Dependency graph helpers for plugin load ordering
+ * v1.5.0: Used by PluginManager to resolve PluginManifest.dependencies
+ */
+
+export type DependencyLookup = (pluginName: string) => string[];
+
+/**
+ * Find a dependency cycle that leads back to `start`
+ * @returns The cycle path (e.g. ['a', 'b', 'a']) or null if none exists
+ */
+export function findDependencyCycle(start: string, getDependencies: DependencyLookup): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (name: string, path: string[]): string[] | null => {
+    for (const dependency of getDependencies(name)) {
+      if (dependency === start) {
+        return [...path, dependency];
+      }
+
+      if (!visited.has(dependency)) {
+        visited.add(dependency);
+        const cycle = visit(dependency, [...path, dependency]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+
+    return null;
+  };
+
+  return visit(start, [start]);
+}
@@ -0,0 +1,53 @@
+import { PluginAuditQuery, PluginAuditRecord, PluginAuditSink } from '../types/audit.types';
+
+/**
+ * Built-in audit sinks
+ * v1.5.0: Used by PluginAuditLog when PluginSystemConfig.audit is set
+ */
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Prints each record with console.info
+ */
+export class ConsoleAuditSink implements PluginAuditSink {
+  write(record: PluginAuditRecord): void {
+    console.info(`[PluginAudit] ${record.pluginName} ${record.type}`, record);
+  }
+}
+
+/**
+ * Keeps the most recent records in memory and answers queries over them
+ */
+export class RingBufferAuditSink implements PluginAuditSink {
+  private readonly records: PluginAuditRecord[] = [];
+
+  constructor(readonly capacity = DEFAULT_BUFFER_SIZE) {}
+
+  write(record: PluginAuditRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.capacity) {
+      this.records.splice(0, this.records.length - this.capacity);
+    }
+  }
+
+  /**
+   * Matching records, oldest first
+   */
+  query(query: PluginAuditQuery = {}): PluginAuditRecord[] {
+    const from = query.from !== undefined ? new Date(query.from).getTime() : -Infinity;
+    const to = query.to !== undefined ? new Date(query.to).getTime() : Infinity;
+
+    return this.records.filter(
+      record =>
+        (!query.pluginName || record.pluginName === query.pluginName) &&
+        (!query.type || record.type === query.type) &&
+        record.timestamp.getTime() >= from &&
+        record.timestamp.getTime() <= to
+    );
+  }
+
+  clear(): void {
+    this.records.length = 0;
+  }
+}
@@ -0,0 +1,113 @@
+import { PluginCatalogEntry } from '../types/remote-plugin.types';
+import { PluginCatalogError } from '../types/errors.types';
+import { parseVersion } from './semver.util';
+
+/**
+ * Remote plugin catalog parsing
+ * v1.5.0: Used by PluginManager.registerCatalog()
+ */
+
+export const SUPPORTED_CATALOG_SCHEMA_VERSIONS = [1];
+
+const FORMATS = ['global', 'esm', 'federation'];
+
+/**
+ * Validate a catalog and return its entries
+ * Relative remote URLs are resolved against `baseUrl` (the catalog URL)
+ * @throws PluginCatalogError listing every problem found
+ */
+export function parsePluginCatalog(raw: unknown, source: string, baseUrl?: string): PluginCatalogEntry[] {
+  if (!isObject(raw)) {
+    throw new PluginCatalogError(source, ['catalog must be a JSON object']);
+  }
+
+  const problems: string[] = [];
+
+  if (!SUPPORTED_CATALOG_SCHEMA_VERSIONS.includes(raw['schemaVersion'] as number)) {
+    problems.push(
+      `unsupported schemaVersion ${JSON.stringify(raw['schemaVersion'])} (supported: ${SUPPORTED_CATALOG_SCHEMA_VERSIONS.join(', ')})`
+    );
+  }
+
+  if (!Array.isArray(raw['plugins'])) {
+    problems.push('plugins must be an array');
+    throw new PluginCatalogError(source, problems);
+  }
+
+  const names = new Set<string>();
+  const entries: PluginCatalogEntry[] = [];
+
+  raw['plugins'].forEach((plugin: unknown, index: number) => {
+    const label = `plugins[${index}]`;
+
+    if (!isObject(plugin)) {
+      problems.push(`${label} must be an object`);
+      return;
+    }
+
+    const { name, remoteUrl, exposedModule, version, integrity, metadata, autoLoad, format, sandbox } = plugin;
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      problems.push(`${label}.name must be a non-empty string`);
+    } else if (names.has(name)) {
+      problems.push(`${label}.name '${name}' is listed more than once`);
+    } else {
+      names.add(name);
+    }
+
+    let resolvedUrl: string | undefined;
+    if (typeof remoteUrl !== 'string' || remoteUrl === '') {
+      problems.push(`${label}.remoteUrl must be a non-empty string`);
+    } else {
+      resolvedUrl = resolveUrl(remoteUrl, baseUrl);
+      if (!resolvedUrl) {
+        problems.push(`${label}.remoteUrl '${remoteUrl}' is not a valid http(s) URL`);
+      }
+    }
+
+    if (typeof exposedModule !== 'string' || exposedModule === '') {
+      problems.push(`${label}.exposedModule must be a non-empty string`);
+    }
+    if (version !== undefined && (typeof version !== 'string' || !parseVersion(version))) {
+      problems.push(`${label}.version must be a semver version`);
+    }
+    if (integrity !== undefined && typeof integrity !== 'string') {
+      problems.push(`${label}.integrity must be a string`);
+    }
+    if (metadata !== undefined && !isObject(metadata)) {
+      problems.push(`${label}.metadata must be an object`);
+    }
+    if (autoLoad !== undefined && typeof autoLoad !== 'boolean') {
+      problems.push(`${label}.autoLoad must be a boolean`);
+    }
+    if (format !== undefined && !FORMATS.includes(format as string)) {
+      problems.push(`${label}.format must be one of ${FORMATS.join(', ')}`);
+    }
+    // Sandbox services are injection tokens, so a catalog can only switch the sandbox on
+    if (sandbox !== undefined && typeof sandbox !== 'boolean') {
+      problems.push(`${label}.sandbox must be a boolean`);
+    }
+
+    entries.push({ ...(plugin as unknown as PluginCatalogEntry), remoteUrl: resolvedUrl as string });
+  });
+
+  if (problems.length > 0) {
+    throw new PluginCatalogError(source, problems);
+  }
+
+  return entries;
+}
+
+function resolveUrl(url: string, baseUrl?: string): string | undefined {
+  try {
+    const base = new URL(baseUrl ?? document.baseURI, document.baseURI);
+    const resolved = new URL(url, base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,79 @@
+import { PluginConsentDecision, PluginConsentStorage } from '../types/permission.types';
+
+/**
+ * Storage backends for consent decisions
+ * v1.5.0: Used by PluginManager for capabilities listed in permissionPolicy.sensitive
+ */
+
+const DEFAULT_KEY_PREFIX = 'ngx-plugin-consent:';
+
+/**
+ * In-memory storage; the user is asked again after a page reload
+ */
+export class MemoryPluginConsentStorage implements PluginConsentStorage {
+  private readonly decisions = new Map<string, PluginConsentDecision>();
+
+  async get(pluginName: string, capability: string): Promise<PluginConsentDecision | undefined> {
+    return this.decisions.get(`${pluginName}|${capability}`);
+  }
+
+  async set(decision: PluginConsentDecision): Promise<void> {
+    this.decisions.set(`${decision.pluginName}|${decision.capability}`, decision);
+  }
+
+  async clear(pluginName?: string): Promise<void> {
+    for (const decision of Array.from(this.decisions.values())) {
+      if (!pluginName || decision.pluginName === pluginName) {
+        this.decisions.delete(`${decision.pluginName}|${decision.capability}`);
+      }
+    }
+  }
+}
+
+/**
+ * localStorage backend; one entry per plugin holding its decisions by capability
+ */
+export class LocalStoragePluginConsentStorage implements PluginConsentStorage {
+  constructor(private readonly keyPrefix = DEFAULT_KEY_PREFIX) {}
+
+  async get(pluginName: string, capability: string): Promise<PluginConsentDecision | undefined> {
+    return this.read(pluginName)[capability];
+  }
+
+  async set(decision: PluginConsentDecision): Promise<void> {
+    const decisions = this.read(decision.pluginName);
+    decisions[decision.capability] = decision;
+    localStorage.setItem(this.keyPrefix + decision.pluginName, JSON.stringify(decisions));
+  }
+
+  async clear(pluginName?: string): Promise<void> {
+    if (pluginName) {
+      localStorage.removeItem(this.keyPrefix + pluginName);
+      return;
+    }
+
+    for (let index = localStorage.length - 1; index >= 0; index--) {
+      const key = localStorage.key(index);
+      if (key?.startsWith(this.keyPrefix)) {
+        localStorage.removeItem(key);
+      }
+    }
+  }
+
+  private read(pluginName: string): Record<string, PluginConsentDecision> {
+    try {
+      return JSON.parse(localStorage.getItem(this.keyPrefix + pluginName) || '{}');
+    } catch {
+      // Corrupt entries count as no decision; the user is asked again
+      return {};
+    }
+  }
+}
+
+export function createDefaultPluginConsentStorage(): PluginConsentStorage {
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStoragePluginConsentStorage();
+  }
+
+  return new MemoryPluginConsentStorage();
+}
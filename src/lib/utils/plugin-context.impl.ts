@@ -1,61 +1,231 @@
 import { Injector, InjectionToken, Type } from '@angular/core';
-import { PluginContext, PluginContextConfig } from '../types/context.types';
+import { PluginContext, PluginContextConfig, PluginContextPermissions } from '../types/context.types';
+import {
+  PluginEventArgs,
+  PluginEventMap,
+  PluginRequestHandler,
+  PluginRequestMap,
+  PluginRequestOptions
+} from '../types/event-bus.types';
+import { PluginError, PluginPermissionError } from '../types/errors.types';
+import { PluginEventBus, matchesTopic } from '../services/plugin-event-bus.service';
+import type { PluginAuditLog } from '../services/plugin-audit-log.service';
+import { hasCapability } from './plugin-permissions.util';
+import { PluginHostInjector, describeToken } from './plugin-host-injector';
 
-export class PluginContextImpl implements PluginContext {
+export class PluginContextImpl<
+  TEvents extends PluginEventMap = PluginEventMap,
+  TRequests extends PluginRequestMap = PluginRequestMap
+> implements PluginContext<TEvents, TRequests>
+{
   readonly pluginName: string;
+  /** v1.5.0: Filtered; only resolves services the plugin is allowed (see PluginHostInjector) */
   readonly hostInjector: Injector;
+  private readonly host: Injector;
   private readonly allowedServices: Set<InjectionToken<any> | Type<any>>;
-  private readonly eventHandlers: Map<string, Set<(data: any) => void>>;
+  private readonly deniedServices: Set<InjectionToken<any> | Type<any>>;
+  private readonly eventBus: PluginEventBus;
+  private readonly allowedEvents?: string[];
+  private readonly serviceResolver?: PluginContextConfig['serviceResolver'];
+  private permissions?: PluginContextPermissions;
+  private readonly auditLog?: PluginAuditLog;
+  private readonly subscriptions = new Set<() => void>();
 
   constructor(config: PluginContextConfig) {
     this.pluginName = config.pluginName;
-    this.hostInjector = config.hostInjector;
+    this.host = config.hostInjector;
     this.allowedServices = new Set(config.allowedServices || []);
-    this.eventHandlers = new Map();
+    this.deniedServices = new Set(config.deniedServices || []);
+    this.eventBus = config.eventBus || new PluginEventBus();
+    this.allowedEvents = config.allowedEvents;
+    this.serviceResolver = config.serviceResolver;
+    this.permissions = config.permissions;
+    this.auditLog = config.auditLog;
+    this.hostInjector = new PluginHostInjector(this.host, {
+      isAllowed: token => this.isServiceAllowed(token),
+      deny: token => this.createServiceDeniedError(token),
+      onLookup: (token, granted, found) => this.auditService(token, granted, found)
+    });
   }
 
   getService<T>(token: InjectionToken<T> | Type<T>): T | null {
-    if (this.allowedServices.size > 0 && !this.allowedServices.has(token)) {
+    if (!this.isServiceAllowed(token)) {
+      this.auditService(token, false, false);
+      if (this.permissions) {
+        this.denyPermission(this.permissions.capabilityFor(token), `inject ${describeToken(token)}`);
+      }
       return null;
     }
 
+    let service: T | null;
     try {
-      return this.hostInjector.get(token, null);
+      // v1.5.0: Services exported by other plugins take precedence over the host
+      service = this.serviceResolver?.(token) ?? this.host.get(token, null);
     } catch {
-      return null;
+      service = null;
+    }
+
+    this.auditService(token, true, service !== null);
+    return service;
+  }
+
+  /**
+   * v1.5.0: Events are always published in the plugin's own namespace,
+   * so emit('saved') from 'invoice' publishes 'invoice:saved'.
+   * Emitting into its own namespace is always allowed; allowedEvents only governs
+   * the foreign topics a plugin receives and sends requests to.
+   */
+  emit<K extends keyof TEvents & string>(eventName: K, ...args: PluginEventArgs<TEvents, K>): void {
+    const [data] = args;
+    const topic = eventName.startsWith(`${this.pluginName}:`)
+      ? eventName
+      : `${this.pluginName}:${eventName}`;
+
+    this.eventBus.publish(topic, data, this.pluginName);
+    this.auditLog?.record({ type: 'event', pluginName: this.pluginName, topic });
+  }
+
+  /**
+   * v1.5.0: Names without a namespace refer to the plugin's own events,
+   * qualified names and wildcards ('invoice:paid', 'invoice:*') reach other plugins
+   */
+  subscribe<K extends keyof TEvents & string>(
+    eventName: K,
+    handler: (data: TEvents[K]) => void
+  ): () => void {
+    const pattern = eventName.includes(':') ? eventName : `${this.pluginName}:${eventName}`;
+
+    if (this.permissions && !this.isTopicAllowed(pattern)) {
+      this.denyPermission(`events:${pattern}`, `subscribe to '${pattern}'`);
+      return () => undefined;
     }
+
+    const removeSubscription = this.eventBus.subscribe<TEvents[K]>(pattern, event => {
+      if (this.isTopicAllowed(event.topic)) {
+        handler(event.data);
+      }
+    });
+
+    const unsubscribe = () => {
+      removeSubscription();
+      this.subscriptions.delete(unsubscribe);
+    };
+    this.subscriptions.add(unsubscribe);
+
+    return unsubscribe;
   }
 
-  emit(eventName: string, data?: any): void {
-    const handlers = this.eventHandlers.get(eventName);
-    if (handlers) {
-      handlers.forEach(handler => {
+  /**
+   * v1.5.0: Unqualified topics target the plugin's own namespace, like subscribe()
+   */
+  request<K extends keyof TRequests & string>(
+    topic: K,
+    payload?: TRequests[K]['request'],
+    options?: PluginRequestOptions
+  ): Promise<TRequests[K]['response']> {
+    const qualifiedTopic = topic.includes(':') ? topic : `${this.pluginName}:${topic}`;
+
+    if (!this.isTopicAllowed(qualifiedTopic)) {
+      if (this.permissions) {
         try {
-          handler(data);
+          this.denyPermission(`events:${qualifiedTopic}`, `send '${qualifiedTopic}'`);
         } catch (error) {
-          // Defensive: do not propagate plugin handler errors
+          return Promise.reject(error);
         }
-      });
+      }
+      return Promise.reject(
+        new PluginError(`Plugin ${this.pluginName} is not allowed to send '${qualifiedTopic}'`, this.pluginName)
+      );
     }
+
+    return this.eventBus.request(qualifiedTopic, payload, options, this.pluginName);
   }
 
-  subscribe(eventName: string, handler: (data: any) => void): () => void {
-    if (!this.eventHandlers.has(eventName)) {
-      this.eventHandlers.set(eventName, new Set());
-    }
+  /**
+   * v1.5.0: Handlers are always registered in the plugin's own namespace,
+   * so handle('customer-id') from 'crm' answers 'crm:customer-id'
+   */
+  handle<K extends keyof TRequests & string>(
+    topic: K,
+    handler: PluginRequestHandler<TRequests[K]['request'], TRequests[K]['response']>
+  ): () => void {
+    const qualifiedTopic = topic.startsWith(`${this.pluginName}:`)
+      ? topic
+      : `${this.pluginName}:${topic}`;
 
-    const handlers = this.eventHandlers.get(eventName)!;
-    handlers.add(handler);
+    const removeHandler = this.eventBus.handle(qualifiedTopic, handler);
 
-    return () => {
-      handlers.delete(handler);
-      if (handlers.size === 0) {
-        this.eventHandlers.delete(eventName);
-      }
+    const unregister = () => {
+      removeHandler();
+      this.subscriptions.delete(unregister);
     };
+    this.subscriptions.add(unregister);
+
+    return unregister;
+  }
+
+  /**
+   * v1.5.0: Add capabilities approved after the plugin loaded (user consent)
+   */
+  grantPermissions(capabilities: string[]): void {
+    if (this.permissions && capabilities.length > 0) {
+      this.permissions = { ...this.permissions, granted: [...this.permissions.granted, ...capabilities] };
+    }
   }
 
   destroy(): void {
-    this.eventHandlers.clear();
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  private auditService(token: InjectionToken<any> | Type<any>, granted: boolean, found: boolean): void {
+    this.auditLog?.record({ type: 'service', pluginName: this.pluginName, service: describeToken(token), granted, found });
+  }
+
+  // v1.5.0: With a permission policy the service must map to a granted capability (deny by default)
+  private isServiceAllowed(token: InjectionToken<any> | Type<any>): boolean {
+    if (this.deniedServices.has(token)) {
+      return false;
+    }
+
+    if (this.permissions) {
+      const capability = this.permissions.capabilityFor(token);
+      return !!capability && hasCapability(this.permissions.granted, capability);
+    }
+
+    return this.allowedServices.size === 0 || this.allowedServices.has(token);
+  }
+
+  private createServiceDeniedError(token: InjectionToken<any> | Type<any>): PluginError {
+    const action = `inject ${describeToken(token)}`;
+
+    return this.permissions
+      ? new PluginPermissionError(this.pluginName, this.permissions.capabilityFor(token), action)
+      : new PluginError(`Plugin ${this.pluginName} is not allowed to ${action}`, this.pluginName);
+  }
+
+  private isTopicAllowed(topic: string): boolean {
+    if (topic.startsWith(`${this.pluginName}:`)) {
+      return true;
+    }
+
+    // v1.5.0: Foreign topics need an 'events:<pattern>' capability
+    if (this.permissions) {
+      return hasCapability(this.permissions.granted, `events:${topic}`);
+    }
+
+    return !this.allowedEvents || this.allowedEvents.some(pattern => matchesTopic(topic, pattern));
+  }
+
+  // v1.5.0: The access is denied either way; onViolation decides whether the plugin sees an error
+  private denyPermission(capability: string | undefined, action: string): void {
+    const error = new PluginPermissionError(this.pluginName, capability, action);
+
+    if (this.permissions?.onViolation === 'throw') {
+      throw error;
+    }
+
+    console.warn(`[PluginSystem] ${error.message}`);
   }
 }
+
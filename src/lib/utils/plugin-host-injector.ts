@@ -0,0 +1,137 @@
+import {
+  EnvironmentInjector,
+  ErrorHandler,
+  InjectFlags,
+  InjectOptions,
+  Injector,
+  INJECTOR,
+  InjectionToken,
+  Type,
+  NgZone,
+  ProviderToken,
+  RendererFactory2,
+  Sanitizer,
+  APP_ID,
+  LOCALE_ID,
+  PLATFORM_ID,
+  DEFAULT_CURRENCY_CODE,
+  runInInjectionContext
+} from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+/**
+ * Framework tokens every plugin may resolve, whatever its permissions
+ * v1.5.0: Needed to render components; none of them hands out the host injector.
+ * This list is fixed: every other host service, including `providedIn: 'root'` ones, must be granted.
+ */
+export const PLUGIN_FRAMEWORK_TOKENS: ReadonlyArray<ProviderToken<unknown>> = [
+  NgZone,
+  RendererFactory2,
+  Sanitizer,
+  ErrorHandler,
+  DOCUMENT,
+  APP_ID,
+  LOCALE_ID,
+  PLATFORM_ID,
+  DEFAULT_CURRENCY_CODE
+];
+
+const frameworkTokens = new Set<unknown>(PLUGIN_FRAMEWORK_TOKENS);
+
+export interface PluginHostInjectorOptions {
+  /** Services the plugin may resolve */
+  isAllowed: (token: InjectionToken<any> | Type<any>) => boolean;
+  /** Error thrown for a denied required lookup */
+  deny: (token: InjectionToken<any> | Type<any>) => Error;
+  /** Called for every service lookup, allowed or denied; framework lookups are not reported */
+  onLookup?: (token: InjectionToken<any> | Type<any>, granted: boolean, found: boolean) => void;
+}
+
+/**
+ * Filtered view of the host injector
+ * v1.5.0: Exposed as PluginContext.hostInjector and used as the parent of the plugin's
+ * EnvironmentInjector, so neither direct lookups nor DI in plugin components reach services
+ * the plugin was not allowed. Only PLUGIN_FRAMEWORK_TOKENS and the services `isAllowed` accepts
+ * are forwarded. Optional lookups and lookups with a default resolve denied tokens to null or
+ * the default; required ones throw the error returned by `deny`.
+ */
+export class PluginHostInjector extends EnvironmentInjector {
+  constructor(
+    private readonly host: Injector,
+    private readonly options: PluginHostInjectorOptions
+  ) {
+    super();
+  }
+
+  override get<T>(token: ProviderToken<T>, notFoundValue?: unknown, options?: InjectOptions | InjectFlags): any {
+    // The unfiltered host injector must never be handed out
+    if (token === (Injector as unknown) || token === INJECTOR || token === (EnvironmentInjector as unknown)) {
+      return this;
+    }
+
+    const serviceToken = token as Type<T>;
+    if (frameworkTokens.has(serviceToken)) {
+      return this.host.get(token, notFoundValue as T, options as InjectOptions);
+    }
+
+    // Angular first probes the element injector with an internal "not found" marker, then retries the
+    // component's environment injector (the plugin injector) with the real flags. Probes are answered
+    // like a denied optional lookup - never from a default - so the retry applies the denial
+    // and is the only lookup reported.
+    const probe = isElementInjectorProbe(notFoundValue);
+
+    if (this.options.isAllowed(serviceToken)) {
+      let value: unknown;
+      try {
+        value = this.host.get(token, notFoundValue as T, options as InjectOptions);
+      } catch (error) {
+        this.options.onLookup?.(serviceToken, true, false);
+        throw error;
+      }
+
+      if (!(probe && value === notFoundValue)) {
+        this.options.onLookup?.(serviceToken, true, value !== null && value !== notFoundValue);
+      }
+      return value;
+    }
+
+    if (probe) {
+      return notFoundValue;
+    }
+
+    this.options.onLookup?.(serviceToken, false, false);
+
+    const optional = typeof options === 'object' ? options.optional : !!(options && options & InjectFlags.Optional);
+    if (optional || (notFoundValue !== undefined && notFoundValue !== Injector.THROW_IF_NOT_FOUND)) {
+      return optional && notFoundValue === undefined ? null : notFoundValue;
+    }
+
+    throw this.options.deny(serviceToken);
+  }
+
+  override runInContext<ReturnT>(fn: () => ReturnT): ReturnT {
+    return runInInjectionContext(this, fn);
+  }
+
+  // The host owns its injector; plugins cannot destroy it or hook into its teardown
+  override destroy(): void {}
+
+  onDestroy(): () => void {
+    return () => undefined;
+  }
+}
+
+// Angular's element-injector marker is a bare `{}` sentinel, like THROW_IF_NOT_FOUND; it is not exported
+function isElementInjectorProbe(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    value !== Injector.THROW_IF_NOT_FOUND &&
+    Object.getPrototypeOf(value) === Object.prototype &&
+    Object.keys(value).length === 0
+  );
+}
+
+export function describeToken(token: ProviderToken<unknown>): string {
+  return typeof token === 'function' ? token.name : String(token);
+}
@@ -0,0 +1,17 @@
+import { PluginCapability } from '../types/permission.types';
+
+/**
+ * Capability matching for the plugin permission model
+ * v1.5.0: 'http:*' covers 'http:read', '*' covers everything, otherwise names must match exactly
+ */
+export function capabilityCovers(granted: PluginCapability, capability: PluginCapability): boolean {
+  if (granted === capability || granted === '*') {
+    return true;
+  }
+
+  return granted.endsWith('*') && capability.startsWith(granted.slice(0, -1));
+}
+
+export function hasCapability(granted: PluginCapability[], capability: PluginCapability): boolean {
+  return granted.some(pattern => capabilityCovers(pattern, capability));
+}
@@ -0,0 +1,234 @@
+import { InjectionToken, Type } from '@angular/core';
+import { PluginContext } from '../types/context.types';
+import { RemotePluginConfig } from '../types/remote-plugin.types';
+import { PluginSandboxRequest, PluginSandboxResponse } from '../types/sandbox.types';
+
+/**
+ * Host and iframe halves of the sandbox bridge
+ * v1.5.0: Used by PluginSandboxComponent for plugins registered with `sandbox`
+ */
+
+export const PLUGIN_SANDBOX_CHANNEL = 'ngx-plugin-sandbox';
+
+// Tokens a sandboxed plugin may be granted; 'allow-same-origin' would let it escape the sandbox
+const BLOCKED_SANDBOX_TOKENS = ['allow-same-origin', 'allow-top-navigation'];
+
+export function getSandboxAttribute(permissions: string[] = []): string {
+  const tokens = new Set(['allow-scripts', ...permissions.filter(token => !BLOCKED_SANDBOX_TOKENS.includes(token))]);
+  return Array.from(tokens).join(' ');
+}
+
+/**
+ * Build the iframe document: the bridge runtime, then the plugin bundle
+ * Once the host sends its MessagePort, the runtime calls the bundle's `mount(element, context)`.
+ * v1.5.0: `nonce` is set on every script, since the srcdoc document inherits the host's CSP
+ */
+export function createSandboxDocument(config: RemotePluginConfig, services: string[], nonce?: string | null): string {
+  // JSON inside <script> must not close the element
+  const json = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+  const attribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+  const nonceAttribute = nonce ? ` nonce="${attribute(nonce)}"` : '';
+  const integrity = config.integrity
+    ? ` integrity="${attribute(config.integrity)}" crossorigin="anonymous"`
+    : '';
+  // Browsers ignore integrity on inline scripts, so an ESM bundle is first loaded by URL, where the hash
+  // is checked. Module scripts run in order and share the module map, so the import below reuses that
+  // verified module instead of fetching it again.
+  const bundle = config.format === 'esm'
+    ? (integrity ? `<script type="module" src="${attribute(config.remoteUrl)}"${nonceAttribute}${integrity}></script>\n` : '') +
+      `<script type="module"${nonceAttribute}>import * as namespace from ${json(config.remoteUrl)};` +
+      `window[${json(config.exposedModule)}] = namespace[${json(config.exposedModule)}];</script>`
+    : `<script src="${attribute(config.remoteUrl)}"${nonceAttribute}${integrity}></script>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>html, body { margin: 0; }</style>
+<script${nonceAttribute}>${SANDBOX_RUNTIME.replace('__CONFIG__', () =>
+    json({ channel: PLUGIN_SANDBOX_CHANNEL, pluginName: config.name, exposedModule: config.exposedModule, services })
+  )}</script>
+${bundle}
+</head>
+<body><div id="plugin-root"></div></body>
+</html>`;
+}
+
+/**
+ * Host side of the bridge: forwards a sandboxed plugin's emit/subscribe/getService calls to its PluginContext
+ */
+export class PluginSandboxBridge {
+  private readonly subscriptions = new Map<string, () => void>();
+  private readonly readyPromise: Promise<void>;
+  private settleReady!: (error?: Error) => void;
+
+  constructor(
+    private readonly port: MessagePort,
+    private readonly context: PluginContext,
+    private readonly services: Record<string, InjectionToken<any> | Type<any>> = {}
+  ) {
+    this.readyPromise = new Promise<void>((resolve, reject) => {
+      this.settleReady = error => (error ? reject(error) : resolve());
+    });
+
+    this.port.onmessage = event => this.handleMessage(event.data);
+  }
+
+  /**
+   * Resolves once the plugin has mounted; rejects if its bundle is missing or mount() throws
+   */
+  get ready(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  destroy(): void {
+    for (const unsubscribe of this.subscriptions.values()) {
+      unsubscribe();
+    }
+    this.subscriptions.clear();
+    this.port.onmessage = null;
+    this.port.close();
+  }
+
+  private handleMessage(message: PluginSandboxRequest): void {
+    switch (message?.type) {
+      case 'ready':
+        this.settleReady();
+        break;
+      case 'error':
+        this.settleReady(new Error(`Sandboxed plugin ${this.context.pluginName} failed to mount: ${message.message}`));
+        break;
+      case 'emit':
+        this.context.emit(message.event, message.data);
+        break;
+      case 'subscribe':
+        if (!this.subscriptions.has(message.event)) {
+          try {
+            this.subscriptions.set(
+              message.event,
+              this.context.subscribe(message.event, data => this.post({ type: 'event', event: message.event, data }))
+            );
+          } catch (error) {
+            // v1.5.0: e.g. PluginPermissionError; the iframe has no way to receive it
+            console.warn(`[PluginSystem] Sandboxed plugin ${this.context.pluginName} cannot subscribe to '${message.event}'`, error);
+          }
+        }
+        break;
+      case 'unsubscribe':
+        this.subscriptions.get(message.event)?.();
+        this.subscriptions.delete(message.event);
+        break;
+      case 'call':
+        void this.handleCall(message.id, message.service, message.method, message.args);
+        break;
+    }
+  }
+
+  private async handleCall(id: number, serviceName: string, method: string, args: unknown[]): Promise<void> {
+    try {
+      const token = Object.prototype.hasOwnProperty.call(this.services, serviceName)
+        ? this.services[serviceName]
+        : undefined;
+      const service = token ? (this.context.getService(token) as Record<string, unknown> | null) : null;
+
+      if (!service) {
+        throw new Error(`Service '${serviceName}' is not available to sandboxed plugin ${this.context.pluginName}`);
+      }
+
+      if (method in Object.prototype || typeof service[method] !== 'function') {
+        throw new Error(`'${method}' is not a method of service '${serviceName}'`);
+      }
+
+      const value = await (service[method] as (...params: unknown[]) => unknown)(...(args || []));
+      this.post({ type: 'result', id, value });
+    } catch (error) {
+      this.post({ type: 'result', id, error: (error as Error)?.message || String(error) });
+    }
+  }
+
+  private post(message: PluginSandboxResponse): void {
+    try {
+      this.port.postMessage(message);
+    } catch (error) {
+      // Results that cannot be structured-cloned (functions, DOM nodes, class instances with methods)
+      const reason = `${message.type === 'event' ? `Payload of '${message.event}'` : 'Result'} is not serializable`;
+      if (message.type === 'result') {
+        this.port.postMessage({ type: 'result', id: message.id, error: reason });
+      } else {
+        console.warn(`[PluginSystem] ${reason}; not forwarded to sandboxed plugin ${this.context.pluginName}`, error);
+      }
+    }
+  }
+}
+
+// Runs inside the iframe; plain ES5 so it works without a build step
+const SANDBOX_RUNTIME = `(function () {
+  var config = __CONFIG__;
+  var port = null;
+  var nextId = 0;
+  var pending = {};
+  var handlers = {};
+
+  function send(message) { port.postMessage(message); }
+  function fail(error) { send({ type: 'error', message: (error && error.message) || String(error) }); }
+
+  var context = {
+    pluginName: config.pluginName,
+    emit: function (event, data) { send({ type: 'emit', event: event, data: data }); },
+    subscribe: function (event, handler) {
+      handlers[event] = (handlers[event] || []).concat(handler);
+      if (handlers[event].length === 1) { send({ type: 'subscribe', event: event }); }
+      return function () {
+        handlers[event] = (handlers[event] || []).filter(function (h) { return h !== handler; });
+        if (handlers[event].length === 0) { send({ type: 'unsubscribe', event: event }); }
+      };
+    },
+    getService: function (name) {
+      if (config.services.indexOf(name) === -1) { return null; }
+      return new Proxy({}, {
+        get: function (target, method) {
+          if (typeof method !== 'string' || method === 'then') { return undefined; }
+          return function () {
+            var args = Array.prototype.slice.call(arguments);
+            return new Promise(function (resolve, reject) {
+              var id = ++nextId;
+              pending[id] = { resolve: resolve, reject: reject };
+              send({ type: 'call', id: id, service: name, method: method, args: args });
+            });
+          };
+        }
+      });
+    }
+  };
+
+  function receive(event) {
+    var message = event.data || {};
+    if (message.type === 'event') {
+      (handlers[message.event] || []).forEach(function (handler) { handler(message.data); });
+    } else if (message.type === 'result' && pending[message.id]) {
+      var call = pending[message.id];
+      delete pending[message.id];
+      if (message.error) { call.reject(new Error(message.error)); } else { call.resolve(message.value); }
+    }
+  }
+
+  window.addEventListener('message', function init(event) {
+    var message = event.data || {};
+    if (event.source !== parent || message.channel !== config.channel || message.type !== 'init' || !event.ports[0]) { return; }
+    window.removeEventListener('message', init);
+    port = event.ports[0];
+    port.onmessage = receive;
+
+    try {
+      var plugin = window[config.exposedModule];
+      if (!plugin || typeof plugin.mount !== 'function') {
+        throw new Error('Export ' + config.exposedModule + ' with a mount() function was not found');
+      }
+      Promise.resolve(plugin.mount(document.getElementById('plugin-root'), context))
+        .then(function () { send({ type: 'ready' }); }, fail);
+    } catch (error) {
+      fail(error);
+    }
+  });
+})();`;
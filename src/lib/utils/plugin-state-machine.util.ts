@@ -0,0 +1,30 @@
+import { PluginState } from '../types/plugin.types';
+
+/**
+ * Allowed PluginState transitions
+ * v1.5.0: Enforced by PluginRegistry.updateMetadata()
+ *
+ * - LOADING → LOADING: next load attempt when retries are enabled
+ * - LOADED/ACTIVE → LOADING: hot reload
+ * - ACTIVE → LOADED: last component instance destroyed or plugin deactivated
+ * - ERROR → ERROR: a further failure is recorded
+ *
+ * Removing a plugin via PluginRegistry.unregister() is allowed from any state.
+ */
+export const PLUGIN_STATE_TRANSITIONS: Readonly<Record<PluginState, readonly PluginState[]>> = {
+  [PluginState.REGISTERED]: [PluginState.LOADING, PluginState.UNLOADING, PluginState.ERROR],
+  [PluginState.LOADING]: [PluginState.LOADING, PluginState.LOADED, PluginState.ERROR],
+  [PluginState.LOADED]: [PluginState.ACTIVE, PluginState.LOADING, PluginState.UNLOADING, PluginState.ERROR],
+  [PluginState.ACTIVE]: [PluginState.LOADED, PluginState.LOADING, PluginState.UNLOADING, PluginState.ERROR],
+  [PluginState.ERROR]: [PluginState.LOADING, PluginState.UNLOADING, PluginState.ERROR],
+  [PluginState.UNLOADING]: [PluginState.UNLOADED, PluginState.ERROR],
+  [PluginState.UNLOADED]: []
+};
+
+export function getAllowedStateTransitions(from: PluginState): PluginState[] {
+  return [...(PLUGIN_STATE_TRANSITIONS[from] || [])];
+}
+
+export function isValidStateTransition(from: PluginState, to: PluginState): boolean {
+  return (PLUGIN_STATE_TRANSITIONS[from] || []).includes(to);
+}
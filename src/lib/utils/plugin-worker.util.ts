@@ -0,0 +1,196 @@
+import { PluginLifecycle } from '../types/lifecycle.types';
+import { PluginContext } from '../types/context.types';
+import {
+  PluginWorkerDefinition,
+  PluginWorkerRequest,
+  PluginWorkerResponse
+} from '../types/worker.types';
+
+/**
+ * Host and worker halves of the worker plugin RPC
+ * v1.5.0: Used by PluginManager.registerWorkerPlugin()
+ */
+
+// The parts of DedicatedWorkerGlobalScope the worker half needs
+export interface PluginWorkerScope {
+  postMessage(message: unknown): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+}
+
+/**
+ * Call from the worker script to make its api available to the host
+ */
+export function exposePluginWorker<TApi extends object>(
+  definition: PluginWorkerDefinition<TApi>,
+  scope: PluginWorkerScope = self as unknown as PluginWorkerScope
+): void {
+  const api = definition.api as Record<string, unknown>;
+  const methods = Object.keys(api).filter(name => typeof api[name] === 'function');
+
+  scope.onmessage = async (event: MessageEvent<PluginWorkerRequest>) => {
+    const request = event.data;
+    let response: PluginWorkerResponse;
+
+    try {
+      let value: unknown;
+      if (request.type === 'hook') {
+        value = await definition[request.hook]?.apply(definition, request.args as [{ pluginName: string }]);
+      } else if (methods.includes(request.method)) {
+        value = await (api[request.method] as (...args: unknown[]) => unknown)(...request.args);
+      } else {
+        throw new Error(`'${request.method}' is not exported by the worker`);
+      }
+      response = { type: 'result', id: request.id, value };
+    } catch (error) {
+      response = { type: 'result', id: request.id, error: (error as Error)?.message || String(error) };
+    }
+
+    try {
+      scope.postMessage(response);
+    } catch {
+      scope.postMessage({ type: 'result', id: request.id, error: 'Result is not serializable' });
+    }
+  };
+
+  const ready: PluginWorkerResponse = { type: 'ready', version: definition.version, methods };
+  scope.postMessage(ready);
+}
+
+/**
+ * Host side of a worker plugin
+ * Acts as the plugin's lifecycle instance, so PluginManager applies the usual hook timeouts.
+ */
+export class PluginWorkerHost implements PluginLifecycle {
+  readonly api: Record<string, (...args: unknown[]) => Promise<unknown>>;
+
+  private readonly pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+  private methods: string[] = [];
+  private terminated = false;
+  private started = false;
+  private starting?: { resolve: (response: { version?: string; methods: string[] }) => void; reject: (error: Error) => void };
+
+  constructor(
+    private readonly pluginName: string,
+    private readonly worker: Worker,
+    private readonly onCrash?: (error: Error) => void
+  ) {
+    this.worker.onmessage = event => this.handleMessage(event.data);
+    this.worker.onerror = event => {
+      event.preventDefault?.();
+      this.fail(new Error(`Worker of plugin ${pluginName} crashed: ${event.message || 'unknown error'}`));
+    };
+
+    this.api = new Proxy({} as Record<string, (...args: unknown[]) => Promise<unknown>>, {
+      get: (_, method) =>
+        typeof method === 'string' && method !== 'then' ? (...args: unknown[]) => this.call(method, args) : undefined
+    });
+  }
+
+  /**
+   * Wait for the worker to announce its api
+   */
+  start(timeout: number): Promise<{ version?: string; methods: string[] }> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(
+        () => reject(new Error(`Worker of plugin ${this.pluginName} did not call exposePluginWorker() within ${timeout}ms`)),
+        timeout
+      );
+
+      this.starting = {
+        resolve: response => {
+          clearTimeout(timeoutId);
+          resolve(response);
+        },
+        reject: error => {
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      };
+    });
+  }
+
+  onLoad(context: PluginContext): Promise<void> {
+    return this.send({ type: 'hook', id: 0, hook: 'onLoad', args: [{ pluginName: context.pluginName }] }) as Promise<void>;
+  }
+
+  onDestroy(): Promise<void> {
+    return this.send({ type: 'hook', id: 0, hook: 'onDestroy', args: [] }) as Promise<void>;
+  }
+
+  call(method: string, args: unknown[]): Promise<unknown> {
+    if (!this.methods.includes(method)) {
+      return Promise.reject(new Error(`'${method}' is not exported by worker plugin ${this.pluginName}`));
+    }
+
+    return this.send({ type: 'call', id: 0, method, args });
+  }
+
+  terminate(): void {
+    if (this.terminated) {
+      return;
+    }
+
+    this.terminated = true;
+    this.worker.terminate();
+    this.rejectPending(new Error(`Worker of plugin ${this.pluginName} was terminated`));
+  }
+
+  private send(request: PluginWorkerRequest): Promise<unknown> {
+    if (this.terminated) {
+      return Promise.reject(new Error(`Worker of plugin ${this.pluginName} is not running`));
+    }
+
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      try {
+        this.worker.postMessage({ ...request, id });
+      } catch (error) {
+        this.pending.delete(id);
+        reject(new Error(`Arguments of '${request.type === 'call' ? request.method : request.hook}' are not serializable`));
+      }
+    });
+  }
+
+  private handleMessage(response: PluginWorkerResponse): void {
+    if (response?.type === 'ready') {
+      this.methods = response.methods;
+      this.started = true;
+      this.starting?.resolve(response);
+      this.starting = undefined;
+      return;
+    }
+
+    const call = response?.type === 'result' ? this.pending.get(response.id) : undefined;
+    if (call) {
+      this.pending.delete(response.id);
+      if (response.error !== undefined) {
+        call.reject(new Error(response.error));
+      } else {
+        call.resolve(response.value);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.terminated = true;
+    this.worker.terminate();
+    this.rejectPending(error);
+
+    // Before start() resolves, the failure is reported as a load error instead
+    if (this.starting) {
+      this.starting.reject(error);
+      this.starting = undefined;
+    } else if (this.started) {
+      this.onCrash?.(error);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const call of this.pending.values()) {
+      call.reject(error);
+    }
+    this.pending.clear();
+  }
+}
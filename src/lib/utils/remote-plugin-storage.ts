@@ -0,0 +1,166 @@
+import {
+  RemotePluginStorage,
+  RemotePluginStoredBundle,
+  RemotePluginStoredBundleInfo
+} from '../types/remote-plugin.types';
+
+/**
+ * Persistent storage backends for remote plugin bundles
+ * v1.5.0: Used by RemotePluginLoader when PluginSystemConfig.remoteCache is set
+ */
+
+const DEFAULT_STORE_NAME = 'ngx-plugin-bundles';
+
+/**
+ * In-memory storage; lost on page reload. Intended for tests and unsupported environments.
+ */
+export class MemoryRemotePluginStorage implements RemotePluginStorage {
+  private readonly bundles = new Map<string, RemotePluginStoredBundle>();
+
+  async get(key: string): Promise<RemotePluginStoredBundle | undefined> {
+    return this.bundles.get(key);
+  }
+
+  async set(key: string, bundle: RemotePluginStoredBundle): Promise<void> {
+    this.bundles.set(key, bundle);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.bundles.delete(key);
+  }
+
+  async list(): Promise<RemotePluginStoredBundleInfo[]> {
+    return Array.from(this.bundles.values()).map(({ source: _source, ...info }) => info);
+  }
+}
+
+/**
+ * Cache Storage backend (window.caches); bundles are stored as responses under a synthetic URL
+ */
+export class CacheStorageRemotePluginStorage implements RemotePluginStorage {
+  constructor(private readonly cacheName = DEFAULT_STORE_NAME) {}
+
+  async get(key: string): Promise<RemotePluginStoredBundle | undefined> {
+    const cache = await caches.open(this.cacheName);
+    const response = await cache.match(this.toRequestUrl(key));
+    if (!response) {
+      return undefined;
+    }
+
+    return { ...this.readInfo(key, response), source: await response.arrayBuffer() };
+  }
+
+  async set(key: string, bundle: RemotePluginStoredBundle): Promise<void> {
+    const cache = await caches.open(this.cacheName);
+    await cache.put(
+      this.toRequestUrl(key),
+      new Response(bundle.source, {
+        headers: {
+          'Content-Type': 'text/javascript',
+          'X-Plugin-Url': bundle.url,
+          'X-Plugin-Version': bundle.version ?? '',
+          'X-Stored-At': String(bundle.storedAt),
+          'X-Size': String(bundle.size)
+        }
+      })
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    const cache = await caches.open(this.cacheName);
+    await cache.delete(this.toRequestUrl(key));
+  }
+
+  async list(): Promise<RemotePluginStoredBundleInfo[]> {
+    const cache = await caches.open(this.cacheName);
+    const infos: RemotePluginStoredBundleInfo[] = [];
+
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      if (response) {
+        infos.push(this.readInfo(decodeURIComponent(new URL(request.url).pathname.slice(1)), response));
+      }
+    }
+
+    return infos;
+  }
+
+  private toRequestUrl(key: string): string {
+    return `https://plugin-bundle.cache/${encodeURIComponent(key)}`;
+  }
+
+  private readInfo(key: string, response: Response): RemotePluginStoredBundleInfo {
+    return {
+      key,
+      url: response.headers.get('X-Plugin-Url') || '',
+      version: response.headers.get('X-Plugin-Version') || undefined,
+      storedAt: Number(response.headers.get('X-Stored-At')),
+      size: Number(response.headers.get('X-Size'))
+    };
+  }
+}
+
+/**
+ * IndexedDB backend; bundles are stored as records in a single object store
+ */
+export class IndexedDbRemotePluginStorage implements RemotePluginStorage {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly databaseName = DEFAULT_STORE_NAME,
+    private readonly storeName = 'bundles'
+  ) {}
+
+  async get(key: string): Promise<RemotePluginStoredBundle | undefined> {
+    return this.request<RemotePluginStoredBundle | undefined>('readonly', store => store.get(key));
+  }
+
+  async set(key: string, bundle: RemotePluginStoredBundle): Promise<void> {
+    await this.request('readwrite', store => store.put({ ...bundle, key }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async list(): Promise<RemotePluginStoredBundleInfo[]> {
+    const bundles = await this.request<RemotePluginStoredBundle[]>('readonly', store => store.getAll());
+    return bundles.map(({ source: _source, ...info }) => info);
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.database;
+  }
+}
+
+/**
+ * Pick the best storage available in the current environment
+ */
+export function createDefaultRemotePluginStorage(): RemotePluginStorage {
+  if (typeof caches !== 'undefined') {
+    return new CacheStorageRemotePluginStorage();
+  }
+
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDbRemotePluginStorage();
+  }
+
+  return new MemoryRemotePluginStorage();
+}
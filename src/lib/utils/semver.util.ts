@@ -0,0 +1,254 @@
+/**
+ * Minimal semver helpers used for plugin dependency resolution
+ * v1.5.0: Supports exact versions, x-ranges, ^, ~, comparison operators,
+ * hyphen ranges and `||` unions (no external dependency required)
+ */
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+}
+
+type Comparator = { operator: '<' | '<=' | '>' | '>=' | '='; version: ParsedVersion };
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: Array<string | number>;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=|\^|~)?\s*(.*)$/;
+
+export function parseVersion(version: string): ParsedVersion | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: parsePrerelease(match[4])
+  };
+}
+
+/**
+ * Compare two versions: negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string | ParsedVersion, b: string | ParsedVersion): number {
+  const left = typeof a === 'string' ? parseVersion(a) : a;
+  const right = typeof b === 'string' ? parseVersion(b) : b;
+
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${!left ? a : b}`);
+  }
+
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+export function isValidVersionRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check whether a version satisfies a range such as '^1.2.0', '>=2.0.0 <3.0.0' or '1.x || 2.x'
+ * Returns false for invalid versions or ranges
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const parsedVersion = parseVersion(version);
+  const comparatorSets = parseRange(range);
+
+  if (!parsedVersion || !comparatorSets) {
+    return false;
+  }
+
+  return comparatorSets.some(set =>
+    set.every(comparator => testComparator(parsedVersion, comparator))
+  );
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const rawSet of range.split('||')) {
+    const comparators = parseComparatorSet(rawSet.trim());
+    if (!comparators) {
+      return null;
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+function parseComparatorSet(set: string): Comparator[] | null {
+  if (set === '' || set === '*' || set.toLowerCase() === 'x' || set === 'latest') {
+    return [];
+  }
+
+  // Hyphen range: '1.2.3 - 2.3.4'
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(set);
+  if (hyphen) {
+    const lower = desugar('>=', hyphen[1]);
+    const upper = desugar('<=', hyphen[2]);
+    return lower && upper ? [...lower, ...upper] : null;
+  }
+
+  // Allow a space between operator and version: '>= 1.2.0'
+  const tokens = set.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/);
+  const comparators: Comparator[] = [];
+
+  for (const token of tokens) {
+    const match = COMPARATOR_PATTERN.exec(token);
+    const desugared = match ? desugar(match[1] || '=', match[2]) : null;
+    if (!desugared) {
+      return null;
+    }
+    comparators.push(...desugared);
+  }
+
+  return comparators;
+}
+
+function desugar(operator: string, raw: string): Comparator[] | null {
+  const partial = parsePartial(raw);
+  if (!partial) {
+    return null;
+  }
+
+  const { major, minor, patch, prerelease } = partial;
+
+  if (major === undefined) {
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0, [0]) }] : [];
+  }
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+  const isFull = minor !== undefined && patch !== undefined;
+
+  switch (operator) {
+    case '^': {
+      let upper: ParsedVersion;
+      if (major > 0 || minor === undefined) {
+        upper = version(major + 1, 0, 0);
+      } else if (minor > 0 || patch === undefined) {
+        upper = version(0, minor + 1, 0);
+      } else {
+        upper = version(0, 0, patch + 1);
+      }
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~': {
+      const upper = minor === undefined ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '>':
+      return isFull
+        ? [{ operator: '>', version: lower }]
+        : [{ operator: '>=', version: bump(partial) }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: lower }];
+    case '<=':
+      return isFull
+        ? [{ operator: '<=', version: lower }]
+        : [{ operator: '<', version: bump(partial) }];
+    default:
+      return isFull
+        ? [{ operator: '=', version: lower }]
+        : [{ operator: '>=', version: lower }, { operator: '<', version: bump(partial) }];
+  }
+}
+
+function parsePartial(raw: string): PartialVersion | null {
+  const match = PARTIAL_PATTERN.exec(raw);
+  if (!match) {
+    return null;
+  }
+
+  const toNumber = (part?: string) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+
+  const major = toNumber(match[1]);
+  const minor = major === undefined ? undefined : toNumber(match[2]);
+  const patch = minor === undefined ? undefined : toNumber(match[3]);
+
+  return { major, minor, patch, prerelease: parsePrerelease(match[4]) };
+}
+
+/**
+ * Smallest version above every version matched by a partial version ('1.2' → 1.3.0)
+ */
+function bump(partial: PartialVersion): ParsedVersion {
+  const major = partial.major ?? 0;
+  return partial.minor === undefined
+    ? version(major + 1, 0, 0)
+    : version(major, partial.minor + 1, 0);
+}
+
+function version(
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: Array<string | number> = []
+): ParsedVersion {
+  return { major, minor, patch, prerelease };
+}
+
+function testComparator(target: ParsedVersion, comparator: Comparator): boolean {
+  const result = compareVersions(target, comparator.version);
+
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    default:
+      return result === 0;
+  }
+}
+
+function parsePrerelease(raw?: string): Array<string | number> {
+  if (!raw) {
+    return [];
+  }
+
+  return raw.split('.').map(part => (/^\d+$/.test(part) ? Number(part) : part));
+}
+
+function comparePrerelease(a: Array<string | number>, b: Array<string | number>): number {
+  // A version without prerelease has higher precedence than one with it
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') {
+      return (a[i] as number) - (b[i] as number);
+    }
+    if (typeof a[i] === 'number') return -1;
+    if (typeof b[i] === 'number') return 1;
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+
+  return 0;
+}
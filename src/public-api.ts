@@ -4,14 +4,28 @@ export * from './lib/types/context.types';
 export * from './lib/types/errors.types';
 export * from './lib/types/registration.types';
 export * from './lib/types/remote-plugin.types';
+export * from './lib/types/event-bus.types';
+export * from './lib/types/sandbox.types';
+export * from './lib/types/worker.types';
+export * from './lib/types/permission.types';
+export * from './lib/types/audit.types';
 
 export * from './lib/services/plugin-manager.service';
 export * from './lib/services/plugin-registry.service';
 export * from './lib/services/remote-plugin-loader.service';
+export * from './lib/services/plugin-event-bus.service';
+export * from './lib/services/plugin-audit-log.service';
 
 export * from './lib/utils/plugin-injector.factory';
 export * from './lib/utils/plugin-context.impl';
+export * from './lib/utils/plugin-host-injector';
+export * from './lib/utils/plugin-state-machine.util';
+export * from './lib/utils/remote-plugin-storage';
+export * from './lib/utils/plugin-consent-storage';
+export * from './lib/utils/plugin-audit-sinks';
+export * from './lib/utils/plugin-worker.util';
 
 export * from './lib/config/plugin-system.config';
 
 export * from './lib/components/plugin-outlet.component';
+export * from './lib/components/plugin-sandbox.component';